@@ -1,143 +1,35 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 
-import {
-  getDuracubePrinciples,
-  getLearnedCorrections,
-  getOutputFormat,
-  getFinanceExtractionGuide,
-  toolDefinitions,
-} from './tools/knowledge-tools.js';
-import {
-  GetPrinciplesSchema,
-  GetLearnedCorrectionsSchema,
-  GetFinanceExtractionGuideSchema,
-} from './schemas/tool-schemas.js';
-import { startHttpServer } from './server.js';
+import { createMcpServer, notifyListsChanged } from './mcp-server.js';
+import { getKnowledgeBase, watchKnowledgeFiles } from './tools/knowledge-tools.js';
+import { startHttpServer, notifyKnowledgeChanged } from './server.js';
 
 // Determine transport mode from environment or command line
 const transportMode = process.env.TRANSPORT_MODE || process.argv[2] || 'stdio';
 const port = parseInt(process.env.PORT || '3000', 10);
-
-// Create the MCP server for stdio mode
-function createStdioServer(): Server {
-  const server = new Server(
-    {
-      name: 'duracube-contract-mcp',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
-
-  // Handle list tools request
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: [
-        toolDefinitions.get_duracube_principles,
-        toolDefinitions.get_learned_corrections,
-        toolDefinitions.get_output_format,
-        toolDefinitions.get_finance_extraction_guide,
-      ],
-    };
-  });
-
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      switch (name) {
-        case 'get_duracube_principles': {
-          const validatedArgs = GetPrinciplesSchema.parse(args || {});
-          const result = getDuracubePrinciples(validatedArgs);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result,
-              },
-            ],
-          };
-        }
-
-        case 'get_learned_corrections': {
-          const validatedArgs = GetLearnedCorrectionsSchema.parse(args || {});
-          const result = getLearnedCorrections(validatedArgs);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result,
-              },
-            ],
-          };
-        }
-
-        case 'get_output_format': {
-          const result = getOutputFormat();
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result,
-              },
-            ],
-          };
-        }
-
-        case 'get_finance_extraction_guide': {
-          const validatedArgs = GetFinanceExtractionGuideSchema.parse(args || {});
-          const result = getFinanceExtractionGuide(validatedArgs);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result,
-              },
-            ],
-          };
-        }
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error executing tool ${name}: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  });
-
-  return server;
-}
+const watchKnowledge = process.env.KNOWLEDGE_WATCH !== 'false';
 
 // Start the server based on transport mode
 async function main() {
+  // Validate the knowledge files up front so a bad deploy fails at startup, not on first tool call
+  getKnowledgeBase();
+
   if (transportMode === 'http') {
     // HTTP mode for Railway deployment
     startHttpServer(port);
+    if (watchKnowledge) {
+      watchKnowledgeFiles(notifyKnowledgeChanged);
+    }
   } else {
     // Stdio mode for Claude Code local testing
-    const server = createStdioServer();
+    const server = createMcpServer();
     const transport = new StdioServerTransport();
     await server.connect(transport);
+    if (watchKnowledge) {
+      watchKnowledgeFiles(() => notifyListsChanged(server));
+    }
     console.error('DuraCube Contract MCP Server started (stdio mode)');
   }
 }
@@ -0,0 +1,44 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+import { registerTools } from './tools/registry.js';
+import { registerResources } from './resources/knowledge-resources.js';
+import { registerPrompts } from './prompts/knowledge-prompts.js';
+
+/**
+ * Create an MCP server with every capability registered. Stdio mode uses one;
+ * HTTP mode creates one per session.
+ */
+export function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'duracube-contract-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
+      },
+    }
+  );
+
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+
+  return server;
+}
+
+/**
+ * Send tools, resources and prompts list_changed notifications, logging failures
+ */
+export function notifyListsChanged(server: Server): void {
+  Promise.all([
+    server.sendToolListChanged(),
+    server.sendResourceListChanged(),
+    server.sendPromptListChanged(),
+  ]).catch(error => {
+    console.error('Failed to send list_changed notifications:', error);
+  });
+}
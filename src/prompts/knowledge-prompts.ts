@@ -0,0 +1,206 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { getKnowledgeBase } from '../tools/knowledge-tools.js';
+import type { KnowledgeBase } from '../tools/knowledge-tools.js';
+
+type SectionGroup = KnowledgeBase['sectionMapping']['section_groups'][number];
+
+const PageRange = z
+  .string()
+  .trim()
+  .regex(/^\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*$/, 'Use page numbers and ranges such as 12-30 or 4, 9-11');
+
+// Contract details shared by the prompts that feed the departure schedule
+const ContractArgs = {
+  customer_name: z.string().trim().min(1).optional().describe('Customer name, e.g. ABC Construction'),
+  project_name: z.string().trim().min(1).optional().describe('Project name, e.g. New Office'),
+  contract_value: z
+    .string()
+    .trim()
+    .regex(/^\$?\d[\d,]*(\.\d{1,2})?$/, 'Use a dollar amount such as 500000 or $1,250,000')
+    .transform(value => value.replace(/[$,]/g, ''))
+    .optional()
+    .describe('Contract value excluding GST, e.g. 500000'),
+};
+
+type ContractDetails = {
+  customer_name?: string;
+  project_name?: string;
+  contract_value?: string;
+};
+
+/**
+ * A prompt built from the knowledge files. Arguments are declared with zod:
+ * MCP sends them as strings, and the schema checks and normalizes them.
+ */
+interface KnowledgePrompt {
+  name: string;
+  title: string;
+  description: string;
+  args: z.AnyZodObject;
+  render(args: Record<string, string | undefined>): string;
+}
+
+/**
+ * The schedule's row 1 header, CustomerName_ProjectName_$ContractValue,
+ * with whatever details were provided
+ */
+function scheduleHeader({ customer_name, project_name, contract_value }: ContractDetails): string | null {
+  const parts = [customer_name, project_name]
+    .filter((part): part is string => Boolean(part))
+    .map(part => part.replace(/\s+/g, '_'));
+  if (contract_value) parts.push(`$${contract_value}`);
+  return parts.length > 0 ? parts.join('_') : null;
+}
+
+function contractContext(details: ContractDetails): string {
+  const lines = [
+    details.customer_name && `Customer: ${details.customer_name}`,
+    details.project_name && `Project: ${details.project_name}`,
+    details.contract_value && `Contract value (excl. GST): $${Number(details.contract_value).toLocaleString('en-AU')}`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `${lines.join('\n')}\n\n` : '';
+}
+
+/**
+ * One prompt for every section group, picked by group_id, so clients fill in
+ * a single typed argument rather than choosing between near-identical prompts
+ */
+function sectionGroupPrompt(groups: SectionGroup[]): KnowledgePrompt {
+  const ids = groups.map(group => group.group_id);
+  return {
+    name: 'analyse_section_group',
+    title: 'Analyse a section group',
+    description: `Check one group of contract sections against its principles: ${groups.map(g => `${g.group_id} ${g.group_name}`).join(', ')}.`,
+    args: z.object({
+      group_id: z
+        .string()
+        .trim()
+        .transform(value => value.toUpperCase())
+        .refine(value => ids.includes(value), `Use one of the section groups ${ids.join(', ')}`)
+        .describe(`Section group to analyse: ${ids.join(', ')}`),
+      page_range: PageRange.optional().describe('Pages covering the group\'s sections, e.g. 12-30'),
+      ...ContractArgs,
+    }),
+    render: args => {
+      const group = groups.find(g => g.group_id === args.group_id) as SectionGroup;
+      const pages = args.page_range ? `pages ${args.page_range}` : 'the relevant pages';
+      return contractContext(args) + group.analysis_prompt.replace(/pages \[X-Y\]/g, pages);
+    },
+  };
+}
+
+function buildPrompts(kb: KnowledgeBase): KnowledgePrompt[] {
+  const { section_groups, smart_extraction, combining_results_template } = kb.sectionMapping;
+
+  return [
+    {
+      name: 'discover_principle_terms',
+      title: 'Find principle terms in a contract',
+      description: 'Smart extraction phase 1: search the contract for every principle keyword and list the pages each appears on',
+      args: z.object({}),
+      render: () => smart_extraction.discovery_prompt,
+    },
+    {
+      name: 'extract_targeted_pages',
+      title: 'Extract and analyse targeted pages',
+      description: 'Smart extraction phase 2: extract only the pages found during discovery and analyse them against the listed principles',
+      args: z.object({
+        pages: PageRange.describe('Pages to extract, e.g. 4, 9-11, 27'),
+        principles: z
+          .string()
+          .trim()
+          .regex(/^\d+(\s*,\s*\d+)*$/, 'Use comma-separated principle numbers such as 15, 16, 25')
+          .describe('Principles those pages relate to, e.g. 15, 16, 25'),
+      }),
+      render: args => smart_extraction.targeted_extraction_prompt
+        .replace('[LIST PAGES]', args.pages ?? '')
+        .replace('[LIST PRINCIPLES]', args.principles ?? ''),
+    },
+    sectionGroupPrompt(section_groups),
+    {
+      name: 'combine_departure_schedule',
+      title: 'Combine group results into the departure schedule',
+      description: 'After analysing every section group, merge the findings into the formatted Excel departure schedule',
+      args: z.object(ContractArgs),
+      render: args => {
+        const header = scheduleHeader(args);
+        return header
+          ? `${combining_results_template.final_prompt}\n\nRow 1 header: ${header}`
+          : combining_results_template.final_prompt;
+      },
+    },
+  ];
+}
+
+function promptArguments(args: z.AnyZodObject): Prompt['arguments'] {
+  return Object.entries(args.shape as z.ZodRawShape).map(([name, schema]) => ({
+    name,
+    description: schema.description,
+    required: !schema.isOptional(),
+  }));
+}
+
+/**
+ * Every prompt, in the shape of an MCP prompts/list result
+ */
+export function listPrompts(): Prompt[] {
+  return buildPrompts(getKnowledgeBase()).map(prompt => ({
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: promptArguments(prompt.args),
+  }));
+}
+
+/**
+ * Fill a prompt's arguments into its text
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = buildPrompts(getKnowledgeBase()).find(p => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const parsed = prompt.args.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${issues.join('; ')}`);
+  }
+
+  return {
+    description: prompt.title,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: prompt.render(parsed.data),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Register prompts/list and prompts/get handlers on an SDK server
+ */
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: listPrompts(),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+}
@@ -0,0 +1,203 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+import { getKnowledgeBase } from '../tools/knowledge-tools.js';
+import type { KnowledgeBase } from '../tools/knowledge-tools.js';
+import { getApprovedLearnings } from '../utils/learnings-store.js';
+
+const URI_SCHEME = 'duracube://';
+const MIME_TYPE = 'application/json';
+
+// JSON-RPC error code the MCP spec reserves for unknown resource URIs
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * One addressable kind of knowledge, e.g. a single principle. The template
+ * URI has one {id} parameter; list() names every concrete resource of the kind.
+ */
+interface KnowledgeResourceKind {
+  template: ResourceTemplate;
+  path: string;
+  list(kb: KnowledgeBase): Array<{ id: string; title: string; description?: string }>;
+  read(kb: KnowledgeBase, id: string): unknown;
+}
+
+// Bundled learnings plus reviewed corrections, as get_learned_corrections returns them
+function allLearnings(kb: KnowledgeBase) {
+  return [...kb.learnings.learnings, ...getApprovedLearnings()];
+}
+
+const RESOURCE_KINDS: KnowledgeResourceKind[] = [
+  {
+    path: 'principles',
+    template: {
+      uriTemplate: `${URI_SCHEME}principles/{id}`,
+      name: 'principle',
+      title: 'DuraCube principle',
+      description: 'One of the 28 commercial principles with its standard, search terms, red flags, compliance logic and departure template',
+      mimeType: MIME_TYPE,
+    },
+    list: kb => kb.principles.principles.map(p => ({
+      id: String(p.id),
+      title: `Principle ${p.id}: ${p.name}`,
+      description: `${p.category} - ${p.standard}`,
+    })),
+    read: (kb, id) => kb.principles.principles.find(p => String(p.id) === id),
+  },
+  {
+    path: 'learnings',
+    template: {
+      uriTemplate: `${URI_SCHEME}learnings/{id}`,
+      name: 'learning',
+      title: 'Learned correction',
+      description: 'A correction from past contract reviews (e.g. SEC-001), including approved recorded learnings',
+      mimeType: MIME_TYPE,
+    },
+    list: kb => allLearnings(kb).map(l => ({
+      id: l.id,
+      title: `${l.id}: ${l.issue}`,
+      description: l.rule,
+    })),
+    read: (kb, id) => allLearnings(kb).find(l => l.id === id),
+  },
+  {
+    path: 'section-groups',
+    template: {
+      uriTemplate: `${URI_SCHEME}section-groups/{id}`,
+      name: 'section-group',
+      title: 'Contract section group',
+      description: 'A section group (A-G) for large contract analysis with the principles it covers and its analysis prompt',
+      mimeType: MIME_TYPE,
+    },
+    list: kb => kb.sectionMapping.section_groups.map(g => ({
+      id: g.group_id,
+      title: `Group ${g.group_id}: ${g.group_name}`,
+      description: `Principles ${g.principles_to_check.join(', ')}`,
+    })),
+    read: (kb, id) => kb.sectionMapping.section_groups.find(g => g.group_id === id.toUpperCase()),
+  },
+  {
+    path: 'finance/categories',
+    template: {
+      uriTemplate: `${URI_SCHEME}finance/categories/{id}`,
+      name: 'finance-category',
+      title: 'Finance extraction category',
+      description: 'One of the 9 finance extraction categories with search terms, extraction rules and output fields',
+      mimeType: MIME_TYPE,
+    },
+    list: kb => kb.financeExtraction.extraction_categories.map(c => ({
+      id: String(c.id),
+      title: `Finance category ${c.id}: ${c.name}`,
+      description: c.description,
+    })),
+    read: (kb, id) => kb.financeExtraction.extraction_categories.find(c => String(c.id) === id),
+  },
+];
+
+/**
+ * Fixed resources that are not instances of a template
+ */
+const STATIC_RESOURCES: Array<Pick<Resource, 'uri' | 'name' | 'title' | 'description'> & { read(kb: KnowledgeBase): unknown }> = [
+  {
+    uri: `${URI_SCHEME}format/excel`,
+    name: 'format-excel',
+    title: 'Departure schedule Excel format',
+    description: 'Worksheet structure, formatting and column specifications for the departure schedule',
+    read: kb => ({
+      excel_structure: kb.format.excel_structure,
+      excel_formatting: kb.format.excel_formatting,
+      column_specifications: kb.format.column_specifications,
+    }),
+  },
+  {
+    uri: `${URI_SCHEME}thresholds`,
+    name: 'thresholds',
+    title: 'DuraCube commercial thresholds',
+    description: 'Liability cap, security, DLP, payment and insurance numbers used by the principles, with the changelog',
+    read: kb => kb.thresholds,
+  },
+];
+
+/**
+ * Every concrete knowledge resource, in the shape of an MCP resources/list result
+ */
+export function listResources(): Resource[] {
+  const kb = getKnowledgeBase();
+
+  const resources: Resource[] = STATIC_RESOURCES.map(({ read, ...resource }) => ({ ...resource, mimeType: MIME_TYPE }));
+  for (const kind of RESOURCE_KINDS) {
+    for (const { id, title, description } of kind.list(kb)) {
+      resources.push({
+        uri: `${URI_SCHEME}${kind.path}/${id}`,
+        name: `${kind.template.name}-${id}`,
+        title,
+        description,
+        mimeType: MIME_TYPE,
+      });
+    }
+  }
+  return resources;
+}
+
+export function listResourceTemplates(): ResourceTemplate[] {
+  return RESOURCE_KINDS.map(kind => kind.template);
+}
+
+/**
+ * Resolve a duracube:// URI to its JSON content
+ */
+export function readResource(uri: string): ReadResourceResult {
+  const kb = getKnowledgeBase();
+
+  const content = ((): unknown => {
+    const fixed = STATIC_RESOURCES.find(resource => resource.uri === uri);
+    if (fixed) return fixed.read(kb);
+
+    if (!uri.startsWith(URI_SCHEME)) return undefined;
+    const path = uri.slice(URI_SCHEME.length);
+    const kind = RESOURCE_KINDS.find(k => path.startsWith(`${k.path}/`));
+    const id = kind ? decodeURIComponent(path.slice(kind.path.length + 1)) : '';
+    return kind && id ? kind.read(kb, id) : undefined;
+  })();
+
+  if (content === undefined) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(content, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Register resources/list, resources/templates/list and resources/read handlers on an SDK server
+ */
+export function registerResources(server: Server): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listResources(),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: listResourceTemplates(),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri);
+  });
+}
@@ -0,0 +1,475 @@
+import { z } from 'zod';
+import { findPlaceholders } from '../utils/thresholds.js';
+
+/**
+ * Schemas for the knowledge JSON files. They describe the fields the tools
+ * depend on; any other keys are kept as-is and returned to clients verbatim,
+ * but stay out of the inferred types so those read like plain interfaces.
+ */
+const obj = <T extends z.ZodRawShape>(shape: T) =>
+  z.object(shape).passthrough() as unknown as z.ZodObject<T>;
+
+const PrincipleId = z.number().int().positive();
+const StringList = z.array(z.string());
+
+/**
+ * Schema for principles.json
+ */
+export const PrinciplesDataSchema = obj({
+  categorization: obj({
+    description: z.string(),
+    non_negotiable: obj({
+      description: z.string(),
+      count: z.number().int(),
+      principle_ids: z.array(PrincipleId),
+    }),
+    negotiable: obj({
+      description: z.string(),
+      count: z.number().int(),
+      principle_ids: z.array(PrincipleId),
+    }),
+  }),
+  principles: z.array(obj({
+    id: PrincipleId,
+    category: z.enum(['NEGOTIABLE', 'NON-NEGOTIABLE']),
+    name: z.string().min(1),
+    standard: z.string().min(1),
+    risk_level: z.string(),
+    search_terms: obj({
+      primary: StringList,
+      alternative: StringList,
+      related: StringList,
+    }),
+    red_flags: StringList,
+    compliance_logic: obj({
+      compliant_if: z.string(),
+      non_compliant_if: z.string(),
+      no_term_risk: z.string().min(1),
+      special_note: z.string().optional(),
+      critical_alert: z.string().optional(),
+    }),
+    negotiation_positions: obj({
+      preferred: z.string(),
+      fallback: z.string(),
+      deal_breaker: z.string(),
+    }),
+    departure_template: z.string().min(1),
+  })),
+  critical_non_negotiables: z.record(obj({
+    rule: z.string(),
+    action: z.string(),
+    related_principles: z.array(PrincipleId),
+  })),
+  methodology: z.record(z.unknown()),
+  interconnected_principles: z.array(obj({
+    principle_a: PrincipleId,
+    principle_b: PrincipleId,
+    relationship: z.string(),
+  })),
+});
+
+export type PrinciplesData = z.infer<typeof PrinciplesDataSchema>;
+
+export const LearningSchema = obj({
+  id: z.string().regex(/^[A-Z]+-\d{3}$/, 'Learning IDs look like SEC-001'),
+  category: z.string().min(1),
+  principle_id: PrincipleId.nullable(),
+  date_logged: z.string().optional(),
+  issue: z.string().min(1),
+  correction: z.string().min(1),
+  rule: z.string().min(1),
+  examples: z.record(z.union([z.string(), StringList])).optional(),
+  interconnected_principles: z.array(PrincipleId).optional(),
+  decision_tree: z.record(z.string()).optional(),
+});
+
+/**
+ * Schema for learnings.json
+ */
+export const LearningsDataSchema = obj({
+  learnings: z.array(LearningSchema),
+  decision_trees: z.record(z.unknown()),
+  category_summaries: z.record(z.unknown()),
+});
+
+export type LearningsData = z.infer<typeof LearningsDataSchema>;
+
+const FormatSectionSchema = obj({
+  name: z.string(),
+  header_row: z.number().int(),
+  column_headers_row: z.number().int(),
+  principles: z.array(PrincipleId),
+  count: z.number().int(),
+  data_rows: z.string(),
+});
+
+/**
+ * Schema for format.json
+ */
+export const FormatDataSchema = obj({
+  _output_requirement: z.record(z.unknown()),
+  excel_structure: obj({
+    worksheet_name: z.string(),
+    row_1: z.record(z.string()),
+    row_2: z.record(z.string()),
+    section_structure: obj({
+      description: z.string(),
+      section_1: FormatSectionSchema,
+      section_2: FormatSectionSchema,
+      ordering: z.string(),
+    }),
+    data_rows: z.record(z.unknown()),
+    total_columns: z.number().int(),
+  }),
+  excel_formatting: obj({
+    column_widths: z.record(z.number()),
+    header_row: z.record(z.string()),
+    metadata_row: z.record(z.string()),
+    conditional_formatting: obj({
+      column: z.string(),
+      rules: z.array(obj({
+        value: z.string(),
+        background_color: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+        font_color: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+      })),
+    }),
+    data_cells: obj({
+      text_wrap: StringList,
+      vertical_alignment: z.string(),
+      borders: z.string(),
+    }),
+  }),
+  column_specifications: z.record(obj({
+    column: z.string(),
+    width: z.number(),
+    description: z.string(),
+    format: z.string(),
+    alignment: z.string(),
+    allowed_values: StringList.optional(),
+    action_verbs: StringList.optional(),
+  })),
+  output_instructions: z.record(z.unknown()),
+  example_rows: StringList,
+  quality_checklist: StringList,
+  complete_excel_example: z.string(),
+});
+
+export type FormatData = z.infer<typeof FormatDataSchema>;
+export type FormatSection = z.infer<typeof FormatSectionSchema>;
+
+/**
+ * Schema for finance-extraction.json
+ */
+export const FinanceExtractionDataSchema = obj({
+  tool_metadata: obj({
+    name: z.string(),
+    version: z.string(),
+    purpose: z.string(),
+    design_principle: z.string(),
+  }),
+  business_context: obj({
+    company: z.string(),
+    industry: z.string(),
+    typical_contracts: StringList,
+    contract_value_range: z.string(),
+    regulatory_context: z.string(),
+  }),
+  target_audience: obj({
+    team: z.string(),
+    responsibilities: StringList,
+    use_case: z.string(),
+  }),
+  extraction_categories: z.array(obj({
+    id: z.number().int().positive(),
+    name: z.string(),
+    description: z.string(),
+    alternative_names: StringList.optional(),
+    search_terms: obj({
+      primary: StringList,
+      secondary: StringList,
+      related: StringList,
+    }),
+    extraction_rules: StringList,
+    output_fields: z.record(z.string()),
+  })),
+  extraction_methodology: obj({
+    document_scan_order: z.array(obj({
+      priority: z.number().int(),
+      section: z.string(),
+      rationale: z.string(),
+    })),
+    extraction_rules: StringList,
+  }),
+  edge_case_handling: z.record(z.unknown()),
+  output_format: obj({
+    style_requirements: z.record(z.string()),
+    json_structure: z.record(z.unknown()),
+  }),
+  validation_checklist: StringList,
+  explicit_constraints: obj({
+    do_not: StringList,
+  }),
+  domain_expertise: obj({
+    regulatory_knowledge: StringList,
+    contract_standards: StringList,
+    terminology: z.record(z.string()),
+  }),
+});
+
+export type FinanceExtractionData = z.infer<typeof FinanceExtractionDataSchema>;
+
+/**
+ * Schema for section-mapping.json
+ */
+export const SectionMappingDataSchema = obj({
+  metadata: obj({
+    version: z.string(),
+    purpose: z.string(),
+    created: z.string(),
+    usage: z.string(),
+  }),
+  large_contract_guidance: obj({
+    when_to_use: z.string(),
+    strategy: z.string(),
+    workflow: StringList,
+    token_estimates: obj({
+      per_page_average_tokens: z.number(),
+      claude_context_limit: z.number(),
+      safe_chunk_size_pages: z.number(),
+      recommended_chunk_size_pages: z.number(),
+    }),
+  }),
+  smart_extraction: obj({
+    strategy: z.string(),
+    description: z.string(),
+    workflow: StringList,
+    discovery_prompt: z.string().min(1),
+    targeted_extraction_prompt: z.string().min(1),
+  }),
+  section_groups: z.array(obj({
+    group_id: z.string().regex(/^[A-Z]$/),
+    group_name: z.string(),
+    typical_sections: StringList,
+    page_range_hint: z.string(),
+    principles_to_check: z.array(PrincipleId),
+    principle_details: z.array(obj({
+      id: PrincipleId,
+      name: z.string(),
+      search_for: z.string(),
+    })),
+    critical_alerts: StringList.optional(),
+    analysis_prompt: z.string(),
+  })),
+  quick_reference: obj({
+    non_negotiable_principles: obj({
+      ids: z.array(PrincipleId),
+      groups_containing: StringList,
+      note: z.string(),
+    }),
+    negotiable_principles: obj({
+      ids: z.array(PrincipleId),
+      groups_containing: StringList,
+      note: z.string(),
+    }),
+    principle_to_group_map: z.record(z.string()),
+  }),
+  combining_results_template: obj({
+    instruction: z.string(),
+    output_format: z.string(),
+    format_tool: z.string(),
+    excel_requirements: z.record(z.unknown()),
+    ordering: StringList,
+    final_prompt: z.string(),
+  }),
+});
+
+export type SectionMappingData = z.infer<typeof SectionMappingDataSchema>;
+
+const ThresholdEntry = obj({
+  value: z.number().nonnegative(),
+  unit: z.enum(['percent', 'business_days', 'days', 'weeks', 'months', 'aud']),
+  description: z.string(),
+  principle_ids: z.array(PrincipleId),
+});
+
+export type Threshold = z.infer<typeof ThresholdEntry>;
+
+/**
+ * Schema for thresholds.json
+ */
+export const ThresholdsDataSchema = obj({
+  metadata: obj({
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Use a semantic version such as 1.2.0'),
+    purpose: z.string(),
+    created: z.string(),
+    updated: z.string(),
+    usage: z.string(),
+    changelog: z.array(obj({
+      version: z.string(),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a YYYY-MM-DD date'),
+      changes: StringList.min(1),
+    })).min(1),
+  }),
+  thresholds: obj({
+    liability_cap_percent: ThresholdEntry,
+    ld_cap_percent: ThresholdEntry,
+    notification_min_business_days: ThresholdEntry,
+    assessment_max_business_days: ThresholdEntry,
+    payment_eom_days: ThresholdEntry,
+    payment_max_days: ThresholdEntry,
+    security_max_percent: ThresholdEntry,
+    security_guarantee_percent: ThresholdEntry,
+    release_at_pc_percent: ThresholdEntry,
+    dlp_max_weeks: ThresholdEntry,
+    dlp_max_months: ThresholdEntry,
+    public_liability_limit: ThresholdEntry,
+    contract_works_limit: ThresholdEntry,
+  }),
+});
+
+export type ThresholdsData = z.infer<typeof ThresholdsDataSchema>;
+export type ThresholdKey = keyof ThresholdsData['thresholds'];
+
+/**
+ * Cross-file checks the schemas cannot express on their own. Returns one
+ * message per problem; an empty list means the files agree.
+ */
+export function checkKnowledgeIntegrity(files: {
+  principles: PrinciplesData;
+  learnings: LearningsData;
+  format: FormatData;
+  financeExtraction: FinanceExtractionData;
+  sectionMapping: SectionMappingData;
+  thresholds: ThresholdsData;
+}): string[] {
+  const { principles, learnings, format, sectionMapping, thresholds } = files;
+  const problems: string[] = [];
+  const knownIds = new Set(principles.principles.map(p => p.id));
+  const unknown = (ids: number[]) => ids.filter(id => !knownIds.has(id));
+  const sameList = (a: number[], b: number[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+  const seen = new Set<number>();
+  for (const p of principles.principles) {
+    if (seen.has(p.id)) problems.push(`principles.json: principle ${p.id} is defined more than once`);
+    seen.add(p.id);
+  }
+
+  // Categorization must agree with each principle's own category
+  const { non_negotiable, negotiable } = principles.categorization;
+  for (const [label, group, category] of [
+    ['non_negotiable', non_negotiable, 'NON-NEGOTIABLE'],
+    ['negotiable', negotiable, 'NEGOTIABLE'],
+  ] as const) {
+    const expected = principles.principles.filter(p => p.category === category).map(p => p.id);
+    const listed = new Set(group.principle_ids);
+    if (expected.length !== listed.size || expected.some(id => !listed.has(id))) {
+      problems.push(`principles.json: categorization.${label}.principle_ids [${group.principle_ids.join(', ')}] does not match principles with category ${category} [${expected.join(', ')}]`);
+    }
+    if (group.count !== group.principle_ids.length) {
+      problems.push(`principles.json: categorization.${label}.count is ${group.count} but lists ${group.principle_ids.length} IDs`);
+    }
+  }
+
+  for (const [index, link] of principles.interconnected_principles.entries()) {
+    const missing = unknown([link.principle_a, link.principle_b]);
+    if (missing.length) problems.push(`principles.json: interconnected_principles.${index} references unknown principle(s) ${missing.join(', ')}`);
+  }
+
+  // Each principle is analysed in exactly one section group
+  const groupsByPrinciple = new Map<number, string[]>();
+  for (const group of sectionMapping.section_groups) {
+    const missing = unknown([...group.principles_to_check, ...group.principle_details.map(d => d.id)]);
+    if (missing.length) {
+      problems.push(`section-mapping.json: group ${group.group_id} references unknown principle(s) ${missing.join(', ')}`);
+    }
+    if (!sameList(group.principles_to_check, group.principle_details.map(d => d.id))) {
+      problems.push(`section-mapping.json: group ${group.group_id} principle_details do not match principles_to_check`);
+    }
+    for (const id of group.principles_to_check) {
+      groupsByPrinciple.set(id, [...(groupsByPrinciple.get(id) ?? []), group.group_id]);
+    }
+  }
+  for (const id of knownIds) {
+    const groups = groupsByPrinciple.get(id) ?? [];
+    if (groups.length !== 1) {
+      problems.push(`section-mapping.json: principle ${id} belongs to ${groups.length ? `groups ${groups.join(', ')}` : 'no group'} (expected exactly one)`);
+    }
+  }
+
+  const groupIds = new Set(sectionMapping.section_groups.map(g => g.group_id));
+  for (const [key, groupId] of Object.entries(sectionMapping.quick_reference.principle_to_group_map)) {
+    const id = Number(key);
+    if (!knownIds.has(id)) {
+      problems.push(`section-mapping.json: quick_reference.principle_to_group_map has unknown principle ${key}`);
+    } else if (!groupIds.has(groupId)) {
+      problems.push(`section-mapping.json: quick_reference.principle_to_group_map.${key} points to unknown group ${groupId}`);
+    } else if (groupsByPrinciple.get(id)?.length === 1 && groupsByPrinciple.get(id)?.[0] !== groupId) {
+      problems.push(`section-mapping.json: quick_reference.principle_to_group_map.${key} is ${groupId} but principle ${key} is checked in group ${groupsByPrinciple.get(id)?.[0]}`);
+    }
+  }
+  for (const id of knownIds) {
+    if (!(String(id) in sectionMapping.quick_reference.principle_to_group_map)) {
+      problems.push(`section-mapping.json: quick_reference.principle_to_group_map is missing principle ${id}`);
+    }
+  }
+
+  // Schedule sections list principles in categorization order
+  const { section_1, section_2 } = format.excel_structure.section_structure;
+  for (const [label, section, group] of [
+    ['section_1', section_1, non_negotiable],
+    ['section_2', section_2, negotiable],
+  ] as const) {
+    if (!sameList(section.principles, group.principle_ids)) {
+      problems.push(`format.json: excel_structure.section_structure.${label}.principles [${section.principles.join(', ')}] does not match categorization [${group.principle_ids.join(', ')}]`);
+    }
+    if (section.count !== section.principles.length) {
+      problems.push(`format.json: excel_structure.section_structure.${label}.count is ${section.count} but lists ${section.principles.length} principles`);
+    }
+  }
+
+  const learningIds = new Set<string>();
+  for (const learning of learnings.learnings) {
+    if (learningIds.has(learning.id)) problems.push(`learnings.json: learning ${learning.id} is defined more than once`);
+    learningIds.add(learning.id);
+    const missing = unknown([
+      ...(learning.principle_id === null ? [] : [learning.principle_id]),
+      ...(learning.interconnected_principles ?? []),
+    ]);
+    if (missing.length) problems.push(`learnings.json: learning ${learning.id} references unknown principle(s) ${missing.join(', ')}`);
+  }
+
+  // The changelog records every thresholds version, newest last
+  const { version, changelog } = thresholds.metadata;
+  const latest = changelog[changelog.length - 1];
+  if (latest.version !== version) {
+    problems.push(`thresholds.json: metadata.version is ${version} but the latest changelog entry is ${latest.version}`);
+  }
+  const versions = changelog.map(entry => entry.version);
+  const duplicates = versions.filter((v, i) => versions.indexOf(v) !== i);
+  if (duplicates.length) problems.push(`thresholds.json: changelog lists version(s) ${[...new Set(duplicates)].join(', ')} more than once`);
+
+  const { security_max_percent, security_guarantee_percent } = thresholds.thresholds;
+  if (security_guarantee_percent.value * 2 !== security_max_percent.value) {
+    problems.push(`thresholds.json: two guarantees of security_guarantee_percent (${security_guarantee_percent.value}%) do not add up to security_max_percent (${security_max_percent.value}%)`);
+  }
+  for (const [key, threshold] of Object.entries(thresholds.thresholds)) {
+    const missing = unknown(threshold.principle_ids);
+    if (missing.length) problems.push(`thresholds.json: ${key} references unknown principle(s) ${missing.join(', ')}`);
+  }
+
+  // Every {{placeholder}} must name a threshold
+  const textFiles: Array<[string, unknown]> = [
+    ['principles.json', principles],
+    ['learnings.json', learnings],
+    ['format.json', format],
+    ['finance-extraction.json', files.financeExtraction],
+    ['section-mapping.json', sectionMapping],
+  ];
+  for (const [file, data] of textFiles) {
+    for (const { path, key } of findPlaceholders(data)) {
+      if (!(key in thresholds.thresholds)) problems.push(`${file}: ${path} references unknown threshold {{${key}}}`);
+    }
+  }
+
+  return problems;
+}
@@ -1,5 +1,31 @@
 import { z } from 'zod';
 
+/**
+ * Shared response shaping fields for the knowledge tools
+ */
+const ResponseFormatSchema = z
+  .enum(['json', 'compact', 'markdown'])
+  .optional()
+  .default('json')
+  .describe('json: pretty-printed JSON; compact: JSON without whitespace; markdown: readable headings and lists');
+
+const fieldsSchema = (listName: string, example: string) =>
+  z
+    .array(z.string().min(1))
+    .optional()
+    .describe(`Only return these fields of each ${listName} (dotted paths allowed, e.g. ${example}). Default: all fields`);
+
+const PrincipleIdsFilterSchema = z
+  .array(z.number().int().min(1).max(28))
+  .optional()
+  .describe('Only include these principles, e.g. [15, 16, 25]');
+
+const PrincipleCategoryFilterSchema = z
+  .enum(['all', 'NEGOTIABLE', 'NON-NEGOTIABLE'])
+  .optional()
+  .default('all')
+  .describe('Only include NEGOTIABLE or NON-NEGOTIABLE principles');
+
 /**
  * Schema for get_duracube_principles tool
  */
@@ -9,6 +35,15 @@ export const GetPrinciplesSchema = z.object({
     .optional()
     .default(false)
     .describe('Include example departure templates in the response'),
+  principle_ids: PrincipleIdsFilterSchema,
+  category: PrincipleCategoryFilterSchema,
+  fields: fieldsSchema('principle', '["name", "standard", "compliance_logic.no_term_risk"]'),
+  include_workflow_guidance: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Include the _workflow_guidance block about large contracts'),
+  format: ResponseFormatSchema,
 });
 
 export type GetPrinciplesInput = z.infer<typeof GetPrinciplesSchema>;
@@ -22,6 +57,14 @@ export const GetLearnedCorrectionsSchema = z.object({
     .optional()
     .default('all')
     .describe('Filter learnings by category'),
+  principle_ids: PrincipleIdsFilterSchema.describe('Only include learnings for these principles (by principle_id or interconnected_principles)'),
+  fields: fieldsSchema('learning', '["id", "rule"]'),
+  include_decision_trees: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Include the decision_trees and category_summaries blocks'),
+  format: ResponseFormatSchema,
 });
 
 export type GetLearnedCorrectionsInput = z.infer<typeof GetLearnedCorrectionsSchema>;
@@ -47,6 +90,8 @@ export const GetFinanceExtractionGuideSchema = z.object({
     .optional()
     .default('all')
     .describe('Filter to specific extraction category'),
+  fields: fieldsSchema('extraction category', '["name", "extraction_rules"]'),
+  format: ResponseFormatSchema,
 });
 
 export type GetFinanceExtractionGuideInput = z.infer<typeof GetFinanceExtractionGuideSchema>;
@@ -65,6 +110,502 @@ export const GetSectionPrincipleMappingSchema = z.object({
     .optional()
     .default(true)
     .describe('Include ready-to-use analysis prompts for each section group'),
+  principle_ids: PrincipleIdsFilterSchema.describe('Only include groups that check these principles, narrowed to these principles'),
+  category: PrincipleCategoryFilterSchema,
+  fields: fieldsSchema('section group', '["group_id", "principles_to_check"]'),
+  format: ResponseFormatSchema,
 });
 
 export type GetSectionPrincipleMappingInput = z.infer<typeof GetSectionPrincipleMappingSchema>;
+
+/**
+ * Schema for get_principle tool
+ */
+export const GetPrincipleSchema = z.object({
+  principle: z
+    .union([z.number().int(), z.string().trim().min(1)])
+    .describe('Principle ID (1-28) or a name or topic, e.g. 24, "set-off" or "bank guarantees"'),
+});
+
+export type GetPrincipleInput = z.infer<typeof GetPrincipleSchema>;
+
+/**
+ * Schema for search_knowledge tool
+ */
+export const KnowledgeSourceSchema = z.enum([
+  'principles',
+  'learnings',
+  'format',
+  'finance_extraction',
+  'section_mapping',
+]);
+
+export type KnowledgeSource = z.infer<typeof KnowledgeSourceSchema>;
+
+export const SearchKnowledgeSchema = z.object({
+  query: z.string().trim().min(1).describe('Words or phrase to search for, e.g. "on-demand guarantee"'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .default(10)
+    .describe('Maximum number of fragments to return'),
+  sources: z
+    .array(KnowledgeSourceSchema)
+    .optional()
+    .describe('Knowledge files to search (default: all five)'),
+});
+
+export type SearchKnowledgeInput = z.infer<typeof SearchKnowledgeSchema>;
+
+/**
+ * Shared input fields for tools that work on extracted contract text
+ */
+const ContractPageSchema = z.object({
+  page: z.number().int().positive().describe('Page number in the contract PDF'),
+  text: z.string().describe('Extracted text of the page'),
+});
+
+const contractTextFields = {
+  contract_text: z
+    .string()
+    .optional()
+    .describe("Full contract text with page markers on their own line, e.g. '--- Page 12 ---' or '[Page 12]' (form feeds are also accepted)"),
+  pages: z
+    .array(ContractPageSchema)
+    .optional()
+    .describe('Contract text already split by page (alternative to contract_text)'),
+};
+
+/**
+ * Schema for scan_contract_text tool
+ */
+export const ScanContractTextSchema = z.object({
+  ...contractTextFields,
+  principle_ids: z
+    .array(z.number().int().min(1).max(28))
+    .optional()
+    .describe('Only scan for these principles (defaults to all 28)'),
+  max_candidates_per_principle: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(10)
+    .describe('Maximum candidate clauses returned per principle, strongest first'),
+  snippet_length: z
+    .number()
+    .int()
+    .min(40)
+    .max(1000)
+    .optional()
+    .default(240)
+    .describe('Approximate length in characters of each matched snippet'),
+});
+
+export type ScanContractTextInput = z.infer<typeof ScanContractTextSchema>;
+
+/**
+ * Schema for index_contract_structure tool
+ */
+export const IndexContractStructureSchema = z.object({
+  ...contractTextFields,
+  max_depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(8)
+    .optional()
+    .describe('Leave out deeper headings from the table of contents, e.g. 2 keeps 8 and 8.1 but not 8.1(a)'),
+  lookups: z
+    .array(z.object({
+      page: z.number().int().positive().describe('Page number'),
+      offset: z.number().int().nonnegative().describe('Character offset within that page\'s text'),
+    }))
+    .optional()
+    .describe('Positions to resolve to "Page X, Clause Y" references, e.g. where a search match was found'),
+});
+
+export type IndexContractStructureInput = z.infer<typeof IndexContractStructureSchema>;
+
+/**
+ * Schema for parse_contract_particulars tool
+ */
+export const ParseContractParticularsSchema = z.object({
+  ...contractTextFields,
+});
+
+export type ParseContractParticularsInput = z.infer<typeof ParseContractParticularsSchema>;
+
+/**
+ * Schema for extract_defined_terms tool
+ */
+export const ExtractDefinedTermsSchema = z.object({
+  ...contractTextFields,
+});
+
+export type ExtractDefinedTermsInput = z.infer<typeof ExtractDefinedTermsSchema>;
+
+/**
+ * One row of a finished departure schedule
+ */
+export const DepartureRowSchema = z.object({
+  no: z.union([z.number(), z.string()]).describe('Principle number (1-28)'),
+  term: z.string().optional().default('').describe('Principle name'),
+  status: z.string().optional().default('').describe('Compliant | Non-Compliant | No Term'),
+  page: z.string().optional().default('').describe("Location reference, e.g. 'Page 5, Clause 8.1'"),
+  clause: z.string().optional().default('').describe('Actual contract text'),
+  departure: z.string().optional().default('').describe('Required contract change, starting with Insert:/Replace:/Amend:/Delete:'),
+  comments: z.string().optional().default('').describe('Reserved for user notes - must be empty'),
+});
+
+export type DepartureRow = z.infer<typeof DepartureRowSchema>;
+
+/**
+ * Schema for validate_departure_schedule tool
+ */
+export const ValidateDepartureScheduleSchema = z.object({
+  rows: z
+    .array(DepartureRowSchema)
+    .optional()
+    .describe('Schedule rows in output order (Non-Negotiable section first)'),
+  csv: z
+    .string()
+    .optional()
+    .describe('The schedule as the fallback 7-column CSV, including the metadata and header rows'),
+  title: z
+    .string()
+    .optional()
+    .describe('Metadata header (CustomerName_ProjectName_$ContractValue) when validating JSON rows'),
+});
+
+export type ValidateDepartureScheduleInput = z.infer<typeof ValidateDepartureScheduleSchema>;
+
+/**
+ * Schema for generate_departure_schedule_xlsx tool
+ */
+export const GenerateDepartureScheduleXlsxSchema = z.object({
+  customer_name: z.string().optional().describe('Customer (head contractor) name for the metadata header'),
+  project_name: z.string().optional().describe('Project name for the metadata header'),
+  contract_value: z
+    .union([z.number(), z.string()])
+    .optional()
+    .describe('Contract value for the metadata header, e.g. 500000'),
+  title: z
+    .string()
+    .optional()
+    .describe('Full metadata header (CustomerName_ProjectName_$ContractValue) - overrides the three fields above'),
+  findings: z
+    .array(DepartureRowSchema)
+    .min(1)
+    .describe('One finding per principle; rows are placed in the correct section and order automatically'),
+  filename: z
+    .string()
+    .optional()
+    .describe('Workbook filename (defaults to the metadata header)'),
+});
+
+export type GenerateDepartureScheduleXlsxInput = z.infer<typeof GenerateDepartureScheduleXlsxSchema>;
+
+/**
+ * Structured clause parameters for the quantitative principles
+ */
+export const ClauseParametersSchema = z.object({
+  // Principle 1 - Limitation of Liability
+  liability_cap_percent: z.number().nonnegative().optional().describe('P1: Liability cap as % of contract value'),
+  liability_unlimited: z.boolean().optional().describe('P1: Liability is unlimited'),
+  // Principle 4 - Liquidated Damages
+  ld_cap_percent: z.number().nonnegative().optional().describe('P4: LD cap as % of contract value'),
+  ld_uncapped: z.boolean().optional().describe('P4: LDs have no cap (e.g. daily rate without limit)'),
+  ld_sole_remedy: z.boolean().optional().describe('P4: Contract states LDs are the sole remedy for delay'),
+  head_contract_lds_apply: z.boolean().optional().describe('P4: Head contract LDs flow down'),
+  // Principle 8 - Time Bars
+  notification_business_days: z.number().nonnegative().optional().describe('P8: Notification period in business days'),
+  absolute_time_bar: z.boolean().optional().describe('P8: Late notice extinguishes the claim'),
+  // Principle 9 - Assessment Period
+  assessment_business_days: z.number().nonnegative().optional().describe('P9: Claim assessment period in business days'),
+  assessment_unlimited: z.boolean().optional().describe('P9: No assessment timeframe'),
+  // Principle 14 - Payment
+  payment_days: z.number().nonnegative().optional().describe('P14: Payment period in days'),
+  payment_basis: z
+    .enum(['end_of_month', 'invoice', 'claim'])
+    .optional()
+    .describe('P14: What the payment period runs from'),
+  pay_when_paid: z.boolean().optional().describe('P14: Pay when paid / pay if paid'),
+  // Principle 15 - Security
+  security_percent: z.number().nonnegative().optional().describe('P15: Total security as % of contract value'),
+  security_form: z
+    .enum(['none', 'dated_bank_guarantee', 'unconditional_bank_guarantee', 'cash_retention', 'insurance_bond'])
+    .optional()
+    .describe('P15: Form of security required'),
+  parent_company_guarantee: z.boolean().optional().describe('P15: Parent company guarantee required'),
+  // Principle 16 - Release of Security
+  security_required: z.boolean().optional().describe('P16: Whether any security is required under Principle 15'),
+  release_at_pc_percent: z.number().min(0).max(100).optional().describe('P16: % of security released at Practical Completion'),
+  final_release_weeks_after_pc: z.number().nonnegative().optional().describe('P16: Weeks after PC when the balance is released'),
+  conditional_release: z.boolean().optional().describe('P16: Release depends on conditions beyond the dates'),
+  automatic_expiry: z.boolean().optional().describe('P16: Guarantees expire automatically on their dates'),
+  // Principle 17 - DLP
+  dlp_weeks: z.number().nonnegative().optional().describe('P17: Defects liability period in weeks'),
+  dlp_months: z.number().nonnegative().optional().describe('P17: Defects liability period in months'),
+  re_warranty: z.boolean().optional().describe('P17: Rectified work attracts a fresh defects period'),
+  // Principle 25 - Insurances
+  public_liability_required: z.number().nonnegative().optional().describe('P25: Public liability cover required (AUD)'),
+  contract_works_required: z.number().nonnegative().optional().describe('P25: Contract works cover required (AUD)'),
+  pi_required: z.boolean().optional().describe('P25: Professional Indemnity insurance required'),
+  joint_names: z.boolean().optional().describe('P25: Policies must be in joint names'),
+});
+
+export type ClauseParameters = z.infer<typeof ClauseParametersSchema>;
+
+/**
+ * Schema for assess_principle tool
+ */
+export const AssessPrincipleSchema = z.object({
+  principle_id: z
+    .number()
+    .int()
+    .describe('Principle to assess: 1, 4, 8, 9, 14, 15, 16, 17 or 25'),
+  term_present: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether the contract contains a term for this principle at all'),
+  parameters: ClauseParametersSchema
+    .optional()
+    .default({})
+    .describe('Structured values extracted from the clause'),
+});
+
+export type AssessPrincipleInput = z.infer<typeof AssessPrincipleSchema>;
+
+/**
+ * Schema for run_decision_tree tool
+ */
+export const DecisionTreeNameSchema = z.enum([
+  'no_term_assessment',
+  'security_assessment',
+  'insurance_assessment',
+  'dlp_assessment',
+]);
+
+export type DecisionTreeName = z.infer<typeof DecisionTreeNameSchema>;
+
+export const DecisionTreeFactsSchema = ClauseParametersSchema.extend({
+  // no_term_assessment
+  principle_id: z.number().int().min(1).max(28).optional().describe('Principle whose term is absent'),
+  term_effect: z
+    .enum(['protect', 'burden'])
+    .optional()
+    .describe('Whether the absent term would protect or burden DuraCube (derived from no_term_risk if omitted)'),
+  // insurance_assessment
+  insurance_limits_specified: z.boolean().optional().describe('Contract specifies insurance types or limits'),
+  // dlp_assessment
+  dlp_start_date: z.string().optional().describe('DLP start date (ISO 8601), e.g. date of Practical Completion'),
+  dlp_end_date: z.string().optional().describe('DLP end date (ISO 8601)'),
+  extended_warranty_required: z.boolean().optional().describe('Contract requires a long product warranty (e.g. 15 years)'),
+});
+
+export type DecisionTreeFacts = z.infer<typeof DecisionTreeFactsSchema>;
+
+export const RunDecisionTreeSchema = z.object({
+  tree: DecisionTreeNameSchema.describe('Decision tree from learnings.json to run'),
+  facts: DecisionTreeFactsSchema
+    .optional()
+    .default({})
+    .describe('Facts found in the contract'),
+});
+
+export type RunDecisionTreeInput = z.infer<typeof RunDecisionTreeSchema>;
+
+/**
+ * Schema for check_finding_consistency tool
+ */
+export const CheckFindingConsistencySchema = z.object({
+  rows: z
+    .array(DepartureRowSchema)
+    .optional()
+    .describe('All 28 findings'),
+  csv: z
+    .string()
+    .optional()
+    .describe('The findings as the 7-column departure schedule CSV'),
+  facts: ClauseParametersSchema
+    .pick({
+      security_required: true,
+      security_form: true,
+      parent_company_guarantee: true,
+      pi_required: true,
+    })
+    .optional()
+    .default({})
+    .describe('Facts confirmed from the contract; these override clause-text heuristics'),
+});
+
+export type CheckFindingConsistencyInput = z.infer<typeof CheckFindingConsistencySchema>;
+
+/**
+ * Schema for record_learned_correction tool
+ */
+export const RecordLearnedCorrectionSchema = z.object({
+  category: z
+    .enum(['security', 'insurance', 'dlp', 'design', 'methodology'])
+    .describe('Learning category; sets the ID prefix (SEC, INS, DLP, DESIGN, METHOD)'),
+  principle_id: z
+    .number()
+    .int()
+    .min(1)
+    .max(28)
+    .nullable()
+    .optional()
+    .default(null)
+    .describe('Principle the learning applies to (null for methodology learnings)'),
+  issue: z.string().trim().min(1).describe('What went wrong in the review'),
+  correction: z.string().trim().min(1).describe('What the correct assessment is'),
+  rule: z.string().trim().min(1).describe('The rule to apply in future reviews'),
+  examples: z
+    .record(z.union([z.string(), z.array(z.string())]))
+    .optional()
+    .describe("Examples keyed by label, e.g. { compliant: '...', non_compliant: '...' }"),
+  interconnected_principles: z
+    .array(z.number().int().min(1).max(28))
+    .optional()
+    .describe('Other principles the learning links'),
+  submitted_by: z.string().trim().optional().describe('Reviewer submitting the learning'),
+});
+
+export type RecordLearnedCorrectionInput = z.infer<typeof RecordLearnedCorrectionSchema>;
+
+/**
+ * Schema for draft_departure tool
+ */
+export const DraftDepartureSchema = z.object({
+  principle_id: z.number().int().min(1).max(28).describe('Principle the finding is for'),
+  status: z
+    .enum(['Compliant', 'Non-Compliant', 'No Term'])
+    .describe('Assessed status, e.g. from assess_principle or run_decision_tree'),
+  current_wording: z
+    .string()
+    .trim()
+    .optional()
+    .describe("The contract's wording for this term, e.g. 'unlimited'. Required unless the status is No Term"),
+  location: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Where the wording is, e.g. 'Page 5, Clause 8.1'. Required unless the status is No Term"),
+});
+
+export type DraftDepartureInput = z.infer<typeof DraftDepartureSchema>;
+
+/**
+ * Schema for validate_finance_extraction tool
+ */
+export const ValidateFinanceExtractionSchema = z.object({
+  extraction: z
+    .union([z.record(z.unknown()), z.string()])
+    .describe('The completed finance extraction, as the JSON object from get_finance_extraction_guide\'s json_output_template or that JSON as a string'),
+});
+
+export type ValidateFinanceExtractionInput = z.infer<typeof ValidateFinanceExtractionSchema>;
+
+/**
+ * Schema for extract_dollar_values tool
+ */
+export const ExtractDollarValuesSchema = z.object({
+  ...contractTextFields,
+});
+
+export type ExtractDollarValuesInput = z.infer<typeof ExtractDollarValuesSchema>;
+
+/**
+ * Column mappings for the ERP import files, stored server-side by name
+ */
+export const FinanceExportFileSchema = z.enum(['contract_master', 'parties', 'retention_register', 'payment_terms']);
+
+export type FinanceExportFile = z.infer<typeof FinanceExportFileSchema>;
+
+const ExportColumnSchema = z
+  .object({
+    header: z.string().trim().min(1).describe('Column header in the import file, e.g. "CustomerABN"'),
+    field: z.string().trim().min(1).optional().describe('Export field that fills the column, e.g. "abn"'),
+    value: z.string().optional().describe('Fixed value for every row instead of a field, e.g. "AUD"'),
+  })
+  .refine(column => (column.field === undefined) !== (column.value === undefined), {
+    message: 'A column needs either field or value',
+  });
+
+export type ExportColumn = z.infer<typeof ExportColumnSchema>;
+
+export const ExportMappingSchema = z.object({
+  description: z.string().optional().describe('What the mapping is for, e.g. "MYOB AccountRight import"'),
+  files: z
+    .object({
+      contract_master: z.array(ExportColumnSchema).min(1),
+      parties: z.array(ExportColumnSchema).min(1),
+      retention_register: z.array(ExportColumnSchema).min(1),
+      payment_terms: z.array(ExportColumnSchema).min(1),
+    })
+    .partial()
+    .describe('Columns per file, in order. Files left out use the default columns'),
+});
+
+export type ExportMapping = z.infer<typeof ExportMappingSchema>;
+
+/**
+ * Schema for export_finance_extraction tool
+ */
+export const ExportFinanceExtractionSchema = z.object({
+  extraction: z
+    .union([z.record(z.unknown()), z.string()])
+    .describe('The completed finance extraction, as validated by validate_finance_extraction (object or JSON string)'),
+  mapping: z
+    .string()
+    .trim()
+    .optional()
+    .default('default')
+    .describe('Name of the stored column mapping to use'),
+  contract_reference: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Contract or job number that links the files in the ERP (defaults to the document name)'),
+  files: z
+    .array(FinanceExportFileSchema)
+    .optional()
+    .describe('Only produce these files. Default: all four'),
+});
+
+export type ExportFinanceExtractionInput = z.infer<typeof ExportFinanceExtractionSchema>;
+
+/**
+ * Schema for reconcile_contract_financials tool
+ */
+export const ReconcileContractFinancialsSchema = z.object({
+  extraction: z
+    .union([z.record(z.unknown()), z.string()])
+    .describe('The completed finance extraction (object or JSON string)'),
+  erp_csv: z
+    .string()
+    .min(1)
+    .describe('CSV export of the contract record from the ERP, with a header row'),
+  mapping: z
+    .string()
+    .trim()
+    .optional()
+    .default('default')
+    .describe('Stored export mapping whose column headers match the ERP export'),
+  erp_columns: z
+    .record(z.string().min(1))
+    .optional()
+    .describe('ERP column header -> export field for headers no mapping covers, e.g. { "ValExGST": "contract_value_amount" }'),
+  contract_reference: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Contract or job number of the record to compare when the CSV holds several contracts'),
+});
+
+export type ReconcileContractFinancialsInput = z.infer<typeof ReconcileContractFinancialsSchema>;
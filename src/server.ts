@@ -1,42 +1,67 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
 import {
-  getDuracubePrinciples,
-  getLearnedCorrections,
-  getOutputFormat,
-  getFinanceExtractionGuide,
-  getSectionPrincipleMapping,
-  toolDefinitions,
-} from './tools/knowledge-tools.js';
+  generateDepartureScheduleXlsx,
+  XLSX_MIME_TYPE,
+} from './tools/departure-schedule-tools.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer, notifyListsChanged } from './mcp-server.js';
+import { toolRegistry, listTools } from './tools/registry.js';
 import {
-  GetPrinciplesSchema,
-  GetLearnedCorrectionsSchema,
-  GetFinanceExtractionGuideSchema,
-  GetSectionPrincipleMappingSchema,
-} from './schemas/tool-schemas.js';
+  buildFinanceExport,
+  builtInExportMapping,
+  saveFinanceExportMapping,
+  CSV_MIME_TYPE,
+  EXPORT_FIELDS,
+} from './tools/finance-export-tools.js';
+import { ExportFinanceExtractionSchema, GenerateDepartureScheduleXlsxSchema } from './schemas/tool-schemas.js';
+import { SessionEventStore } from './utils/event-store.js';
+import { listStoredLearnings, reviewLearning } from './utils/learnings-store.js';
+import type { LearningReviewStatus } from './utils/learnings-store.js';
+import { deleteExportMapping, listExportMappings } from './utils/export-mappings-store.js';
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: '20mb' }));
 
-// Session management for MCP protocol
-const sessions = new Map<string, { createdAt: Date }>();
+// One MCP server and transport per session, keyed by Mcp-Session-Id
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+}
+
+const sessions = new Map<string, McpSession>();
 
-// Clean up old sessions (older than 1 hour)
+// Close sessions idle for over an hour; their clients get 404 and re-initialize
+const SESSION_IDLE_MS = 60 * 60 * 1000;
 setInterval(() => {
-  const oneHourAgo = Date.now() - 60 * 60 * 1000;
-  for (const [sessionId, session] of sessions.entries()) {
-    if (session.createdAt.getTime() < oneHourAgo) {
-      sessions.delete(sessionId);
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  for (const session of sessions.values()) {
+    if (session.lastActivity < cutoff) {
+      session.transport.close().catch(() => undefined);
     }
   }
-}, 10 * 60 * 1000); // Run every 10 minutes
+}, 10 * 60 * 1000).unref(); // Run every 10 minutes
+
+/**
+ * Tell every connected session to re-fetch its tool, resource and prompt lists,
+ * e.g. after the knowledge files are reloaded. Sessions without an open GET
+ * stream get the notifications from the event store when they reconnect.
+ */
+export function notifyKnowledgeChanged(): void {
+  for (const session of sessions.values()) {
+    notifyListsChanged(session.server);
+  }
+}
 
 // CORS middleware for claude.ai access
 app.use((req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, HEAD, OPTIONS, DELETE');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Cache-Control, Mcp-Session-Id');
-  res.header('Access-Control-Expose-Headers', 'Content-Type, Mcp-Session-Id');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, HEAD, OPTIONS, DELETE');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Cache-Control, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.header('Access-Control-Expose-Headers', 'Content-Type, Content-Disposition, Mcp-Session-Id, X-Schedule-Valid, X-Schedule-Rejected-Findings, X-Extraction-Valid');
 
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
@@ -61,7 +86,7 @@ app.get('/health', (req: Request, res: Response) => {
     server: 'duracube-contract-mcp',
     version: '1.3.0',
     protocol: '2025-03-26',
-    tools: ['get_duracube_principles', 'get_learned_corrections', 'get_output_format', 'get_finance_extraction_guide', 'get_section_principle_mapping'],
+    tools: toolRegistry.map(tool => tool.name),
     activeSessions: sessions.size,
     features: {
       large_contract_optimization: {
@@ -82,293 +107,243 @@ app.get('/health', (req: Request, res: Response) => {
 // List available tools
 app.get('/tools', (req: Request, res: Response) => {
   res.json({
-    tools: [
-      toolDefinitions.get_duracube_principles,
-      toolDefinitions.get_learned_corrections,
-      toolDefinitions.get_output_format,
-      toolDefinitions.get_finance_extraction_guide,
-      toolDefinitions.get_section_principle_mapping,
-    ],
+    tools: listTools(),
   });
 });
 
-// SSE endpoint for Claude.ai MCP connection (legacy support)
-app.get('/sse', (req: Request, res: Response) => {
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.flushHeaders();
-
-  // Send initial connection event
-  const sessionId = randomUUID();
-  sessions.set(sessionId, { createdAt: new Date() });
-  res.write(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`);
-
-  // Keep connection alive
-  const keepAlive = setInterval(() => {
-    res.write(': keepalive\n\n');
-  }, 30000);
-
-  req.on('close', () => {
-    clearInterval(keepAlive);
-    sessions.delete(sessionId);
-  });
-});
+function isInitializeBody(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
 
-// Helper function to handle MCP requests
-function handleMcpRequest(req: Request, res: Response, sessionId: string | null) {
-  const { method, params, id } = req.body;
-
-  // Handle initialize - create new session
-  if (method === 'initialize') {
-    const newSessionId = randomUUID();
-    sessions.set(newSessionId, { createdAt: new Date() });
-
-    res.setHeader('Mcp-Session-Id', newSessionId);
-    res.json({
-      jsonrpc: '2.0',
-      id,
-      result: {
-        protocolVersion: '2025-03-26',
-        capabilities: {
-          tools: { listChanged: true },
-        },
-        serverInfo: {
-          name: 'duracube-contract-mcp',
-          version: '1.0.0',
-        },
-      },
-    });
-    return;
-  }
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: {
+      code,
+      message,
+    },
+    id: null,
+  });
+}
 
-  // For all other methods, validate session if provided
-  if (sessionId && !sessions.has(sessionId)) {
-    // Session invalid but let's be lenient and create a new one
-    const newSessionId = randomUUID();
-    sessions.set(newSessionId, { createdAt: new Date() });
-    res.setHeader('Mcp-Session-Id', newSessionId);
-    sessionId = newSessionId;
-  } else if (sessionId) {
-    res.setHeader('Mcp-Session-Id', sessionId);
-  }
+async function startSession(req: Request, res: Response): Promise<void> {
+  const server = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new SessionEventStore(),
+    onsessioninitialized: sessionId => {
+      sessions.set(sessionId, { server, transport, lastActivity: Date.now() });
+    },
+  });
 
-  // Handle notifications/initialized - return 202 Accepted
-  if (method === 'notifications/initialized' || method === 'initialized') {
-    res.status(202).send();
-    return;
-  }
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+  };
 
-  // Handle tools/list request
-  if (method === 'tools/list') {
-    res.json({
-      jsonrpc: '2.0',
-      id,
-      result: {
-        tools: [
-          toolDefinitions.get_duracube_principles,
-          toolDefinitions.get_learned_corrections,
-          toolDefinitions.get_output_format,
-          toolDefinitions.get_finance_extraction_guide,
-          toolDefinitions.get_section_principle_mapping,
-        ],
-      },
-    });
-    return;
-  }
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
 
-  // Handle tools/call request
-  if (method === 'tools/call') {
-    const { name, arguments: args } = params || {};
-    let result: string;
+/**
+ * Streamable HTTP endpoint (2025-03-26): POST carries JSON-RPC messages and
+ * batches, GET opens the server-to-client stream, DELETE ends the session.
+ * The SDK transport handles SSE responses and Last-Event-ID resumption.
+ */
+async function handleMcpRequest(req: Request, res: Response): Promise<void> {
+  try {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
-    try {
-      switch (name) {
-        case 'get_duracube_principles': {
-          const validatedArgs = GetPrinciplesSchema.parse(args || {});
-          result = getDuracubePrinciples(validatedArgs);
-          break;
-        }
-
-        case 'get_learned_corrections': {
-          const validatedArgs = GetLearnedCorrectionsSchema.parse(args || {});
-          result = getLearnedCorrections(validatedArgs);
-          break;
-        }
-
-        case 'get_output_format': {
-          result = getOutputFormat();
-          break;
-        }
-
-        case 'get_finance_extraction_guide': {
-          const validatedArgs = GetFinanceExtractionGuideSchema.parse(args || {});
-          result = getFinanceExtractionGuide(validatedArgs);
-          break;
-        }
-
-        case 'get_section_principle_mapping': {
-          const validatedArgs = GetSectionPrincipleMappingSchema.parse(args || {});
-          result = getSectionPrincipleMapping(validatedArgs);
-          break;
-        }
-
-        default:
-          res.json({
-            jsonrpc: '2.0',
-            id,
-            error: {
-              code: -32601,
-              message: `Unknown tool: ${name}`,
-            },
-          });
-          return;
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
       }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
 
-      res.json({
-        jsonrpc: '2.0',
-        id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: result,
-            },
-          ],
-        },
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      res.json({
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32603,
-          message: errorMessage,
-        },
-      });
+    if (req.method === 'POST' && isInitializeBody(req.body)) {
+      await startSession(req, res);
+      return;
     }
-    return;
-  }
 
-  // Handle ping
-  if (method === 'ping') {
-    res.json({
-      jsonrpc: '2.0',
-      id,
-      result: {},
-    });
-    return;
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, errorMessage);
+    }
   }
-
-  // Unknown method
-  res.json({
-    jsonrpc: '2.0',
-    id,
-    error: {
-      code: -32601,
-      message: `Unknown method: ${method}`,
-    },
-  });
 }
 
-// Messages endpoint for SSE-based MCP
-app.post('/messages', async (req: Request, res: Response) => {
+app.post('/mcp', handleMcpRequest);
+app.get('/mcp', handleMcpRequest);
+app.delete('/mcp', handleMcpRequest);
+
+// Returns the workbook as a download, or as JSON with base64 content when ?format=base64
+app.post('/tools/generate_departure_schedule_xlsx', async (req: Request, res: Response) => {
   try {
-    const sessionId = (req.query.sessionId as string) || (req.headers['mcp-session-id'] as string) || null;
-    handleMcpRequest(req, res, sessionId);
+    const validatedArgs = GenerateDepartureScheduleXlsxSchema.parse(req.body || {});
+    const workbook = await generateDepartureScheduleXlsx(validatedArgs);
+
+    if (req.query.format === 'base64') {
+      res.json({
+        filename: workbook.filename,
+        title: workbook.title,
+        mime_type: XLSX_MIME_TYPE,
+        validation: workbook.validation,
+        rejected_findings: workbook.rejected_findings,
+        base64: workbook.buffer.toString('base64'),
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', XLSX_MIME_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${workbook.filename}"`);
+    res.setHeader('X-Schedule-Valid', String(workbook.validation.valid));
+    res.setHeader('X-Schedule-Rejected-Findings', String(workbook.rejected_findings.length));
+    res.send(workbook.buffer);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    res.status(500).json({
-      jsonrpc: '2.0',
-      id: req.body?.id,
-      error: {
-        code: -32603,
-        message: errorMessage,
-      },
-    });
+    res.status(500).json({ error: errorMessage });
   }
 });
 
-// Main MCP endpoint (Streamable HTTP)
-app.post('/mcp', async (req: Request, res: Response) => {
+// Returns every file as JSON, or one file as a CSV download when ?file=contract_master (parties, ...)
+app.post('/tools/export_finance_extraction', (req: Request, res: Response) => {
   try {
-    const sessionId = req.headers['mcp-session-id'] as string || null;
-    handleMcpRequest(req, res, sessionId);
+    const validatedArgs = ExportFinanceExtractionSchema.parse(req.body || {});
+    const exported = buildFinanceExport(validatedArgs);
+
+    if (typeof req.query.file === 'string') {
+      const file = exported.files.find(f => f.file === req.query.file);
+      if (!file) {
+        res.status(400).json({ error: `Unknown file: ${req.query.file}. Expected one of: ${exported.files.map(f => f.file).join(', ')}` });
+        return;
+      }
+      res.setHeader('Content-Type', CSV_MIME_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.setHeader('X-Extraction-Valid', String(exported.validation.valid));
+      res.send(file.csv);
+      return;
+    }
+
+    res.json(exported);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    res.status(500).json({
-      jsonrpc: '2.0',
-      id: req.body?.id,
-      error: {
-        code: -32603,
-        message: errorMessage,
-      },
-    });
+    res.status(500).json({ error: errorMessage });
   }
 });
 
-// DELETE endpoint to close session (MCP protocol requirement)
-app.delete('/mcp', (req: Request, res: Response) => {
-  const sessionId = req.headers['mcp-session-id'] as string;
-  if (sessionId && sessions.has(sessionId)) {
-    sessions.delete(sessionId);
-    res.status(204).send();
-  } else {
-    res.status(404).json({ error: 'Session not found' });
+// Direct tool endpoints for simpler access, one per registered tool
+for (const tool of toolRegistry) {
+  if (!tool.rest) continue;
+
+  app[tool.rest](`/tools/${tool.name}`, async (req: Request, res: Response) => {
+    try {
+      const args = tool.rest === 'get' ? req.query : req.body || {};
+      const output = await tool.execute(args);
+      if (typeof output === 'string' && (args as { format?: string }).format === 'markdown') {
+        res.type('text/markdown').send(output);
+        return;
+      }
+      res.json(typeof output === 'string' ? JSON.parse(output) : output);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+}
+
+/**
+ * Bearer token check for endpoints that change server-side state. The feature
+ * is off until its token variable is set.
+ */
+function requireToken(req: Request, res: Response, variable: string, feature: string, role: string): boolean {
+  const token = process.env[variable];
+  if (!token) {
+    res.status(403).json({ error: `${feature} is disabled: ${variable} is not set` });
+    return false;
   }
-});
+  if (req.headers.authorization !== `Bearer ${token}`) {
+    res.status(401).json({ error: `Invalid or missing ${role} token` });
+    return false;
+  }
+  return true;
+}
 
-// Direct tool endpoints for simpler access
-app.post('/tools/get_duracube_principles', (req: Request, res: Response) => {
+// Review workflow for recorded learnings - approvers authenticate with LEARNINGS_APPROVER_TOKEN
+function requireApprover(req: Request, res: Response): boolean {
+  return requireToken(req, res, 'LEARNINGS_APPROVER_TOKEN', 'Learning review', 'approver');
+}
+
+app.get('/learned-corrections', (req: Request, res: Response) => {
+  if (!requireApprover(req, res)) return;
   try {
-    const validatedArgs = GetPrinciplesSchema.parse(req.body || {});
-    const result = getDuracubePrinciples(validatedArgs);
-    res.json(JSON.parse(result));
+    const status = req.query.status as LearningReviewStatus | undefined;
+    if (status && !['proposed', 'approved', 'rejected'].includes(status)) {
+      res.status(400).json({ error: `Unknown status: ${status}` });
+      return;
+    }
+    const learnings = listStoredLearnings(status);
+    res.json({ total: learnings.length, status: status ?? 'all', learnings });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     res.status(500).json({ error: errorMessage });
   }
 });
 
-app.post('/tools/get_learned_corrections', (req: Request, res: Response) => {
+app.post('/learned-corrections/:id/:decision(approve|reject)', (req: Request, res: Response) => {
+  if (!requireApprover(req, res)) return;
   try {
-    const validatedArgs = GetLearnedCorrectionsSchema.parse(req.body || {});
-    const result = getLearnedCorrections(validatedArgs);
-    res.json(JSON.parse(result));
+    if (!listStoredLearnings().some(l => l.id === req.params.id)) {
+      res.status(404).json({ error: `No recorded learning with ID ${req.params.id}` });
+      return;
+    }
+    const decision = req.params.decision === 'approve' ? 'approved' : 'rejected';
+    const { reviewer, note } = (req.body || {}) as { reviewer?: string; note?: string };
+    const learning = reviewLearning(req.params.id, decision, reviewer, note);
+    res.json({ id: learning.id, review_status: learning.review_status, learning });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    res.status(500).json({ error: errorMessage });
+    res.status(409).json({ error: errorMessage });
   }
 });
 
-app.get('/tools/get_output_format', (req: Request, res: Response) => {
+// ERP column mappings for export_finance_extraction - editors authenticate with EXPORT_MAPPINGS_TOKEN
+app.get('/export-mappings', (req: Request, res: Response) => {
   try {
-    const result = getOutputFormat();
-    res.json(JSON.parse(result));
+    res.json({ built_in: builtInExportMapping(), stored: listExportMappings(), fields: EXPORT_FIELDS });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     res.status(500).json({ error: errorMessage });
   }
 });
 
-app.post('/tools/get_finance_extraction_guide', (req: Request, res: Response) => {
+app.put('/export-mappings/:name', (req: Request, res: Response) => {
+  if (!requireToken(req, res, 'EXPORT_MAPPINGS_TOKEN', 'Export mapping changes', 'export mapping')) return;
   try {
-    const validatedArgs = GetFinanceExtractionGuideSchema.parse(req.body || {});
-    const result = getFinanceExtractionGuide(validatedArgs);
-    res.json(JSON.parse(result));
+    const { updated_by: updatedBy, ...mapping } = (req.body || {}) as { updated_by?: string };
+    const stored = saveFinanceExportMapping(req.params.name, mapping, updatedBy ?? null);
+    res.json(stored);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    res.status(500).json({ error: errorMessage });
+    res.status(400).json({ error: errorMessage });
   }
 });
 
-app.post('/tools/get_section_principle_mapping', (req: Request, res: Response) => {
+app.delete('/export-mappings/:name', (req: Request, res: Response) => {
+  if (!requireToken(req, res, 'EXPORT_MAPPINGS_TOKEN', 'Export mapping changes', 'export mapping')) return;
   try {
-    const validatedArgs = GetSectionPrincipleMappingSchema.parse(req.body || {});
-    const result = getSectionPrincipleMapping(validatedArgs);
-    res.json(JSON.parse(result));
+    if (!deleteExportMapping(req.params.name)) {
+      res.status(404).json({ error: `No stored export mapping named ${req.params.name}` });
+      return;
+    }
+    res.json({ name: req.params.name, deleted: true });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     res.status(500).json({ error: errorMessage });
@@ -383,9 +358,8 @@ export function startHttpServer(port: number = 3000): void {
     console.error(`  GET  /health - Health check`);
     console.error(`  HEAD /mcp - Protocol discovery`);
     console.error(`  POST /mcp - MCP Streamable HTTP endpoint`);
+    console.error(`  GET  /mcp - Server-to-client event stream`);
     console.error(`  DELETE /mcp - Close session`);
-    console.error(`  GET  /sse - SSE endpoint (legacy)`);
-    console.error(`  POST /messages - MCP messages endpoint`);
     console.error(`  GET  /tools - List available tools`);
   });
 }
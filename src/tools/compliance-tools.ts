@@ -0,0 +1,357 @@
+import { getDuracubeStandards, getKnowledgeBase } from './knowledge-tools.js';
+import type { PrinciplesData } from './knowledge-tools.js';
+import type { ThresholdValues } from '../utils/thresholds.js';
+import type { AssessPrincipleInput, ClauseParameters } from '../schemas/tool-schemas.js';
+
+type Comparison = 'equal' | 'more_favorable' | 'less_favorable' | 'absent';
+type Status = 'Compliant' | 'Non-Compliant' | 'No Term';
+type Principle = PrinciplesData['principles'][number];
+
+interface Assessment {
+  comparison: Exclude<Comparison, 'absent'>;
+  reasons: string[];
+}
+
+const money = (amount: number) => `$${amount.toLocaleString('en-AU')}`;
+
+function requireParameter<K extends keyof ClauseParameters>(
+  parameters: ClauseParameters,
+  key: K,
+  principleId: number
+): NonNullable<ClauseParameters[K]> {
+  const value = parameters[key];
+  if (value === undefined || value === null) {
+    throw new Error(`Principle ${principleId} needs parameter '${String(key)}' (or term_present: false)`);
+  }
+  return value as NonNullable<ClauseParameters[K]>;
+}
+
+/**
+ * Compare a contract number against DuraCube's number.
+ * lowerIsBetter is true where a smaller contract value favours DuraCube.
+ */
+function compareNumber(value: number, standard: number, lowerIsBetter: boolean): Assessment['comparison'] {
+  if (value === standard) return 'equal';
+  return (value < standard) === lowerIsBetter ? 'more_favorable' : 'less_favorable';
+}
+
+// Each assessor applies one principle's compliance_logic to structured parameters
+const ASSESSORS: Record<number, (p: ClauseParameters, standards: ThresholdValues) => Assessment> = {
+  1: (p, standards) => {
+    if (p.liability_unlimited) {
+      return { comparison: 'less_favorable', reasons: ['Liability is unlimited'] };
+    }
+    const cap = requireParameter(p, 'liability_cap_percent', 1);
+    const comparison = compareNumber(cap, standards.liability_cap_percent, true);
+    return {
+      comparison,
+      reasons: [`Liability cap ${cap}% of contract value vs DuraCube standard ${standards.liability_cap_percent}%`],
+    };
+  },
+
+  4: (p, standards) => {
+    const reasons: string[] = [];
+    let failed = false;
+
+    if (p.head_contract_lds_apply) {
+      reasons.push('Head contract LDs apply');
+      failed = true;
+    }
+    if (p.ld_uncapped) {
+      reasons.push('LDs are uncapped');
+      failed = true;
+    }
+    if (p.ld_sole_remedy === false) {
+      reasons.push('Contract does not state LDs are the sole remedy for delay');
+      failed = true;
+    }
+    if (failed) {
+      return { comparison: 'less_favorable', reasons };
+    }
+
+    requireParameter(p, 'ld_sole_remedy', 4);
+    const cap = requireParameter(p, 'ld_cap_percent', 4);
+    reasons.push(`LD cap ${cap}% of contract value vs DuraCube maximum ${standards.ld_cap_percent}%, stated as sole remedy`);
+    return { comparison: compareNumber(cap, standards.ld_cap_percent, true), reasons };
+  },
+
+  8: (p, standards) => {
+    if (p.absolute_time_bar) {
+      return { comparison: 'less_favorable', reasons: ['Absolute time bar - late notice extinguishes the claim'] };
+    }
+    const days = requireParameter(p, 'notification_business_days', 8);
+    return {
+      comparison: compareNumber(days, standards.notification_min_business_days, false),
+      reasons: [`Notification period ${days} business days vs DuraCube minimum ${standards.notification_min_business_days}`],
+    };
+  },
+
+  9: (p, standards) => {
+    if (p.assessment_unlimited) {
+      return { comparison: 'less_favorable', reasons: ['No timeframe for assessing claims'] };
+    }
+    const days = requireParameter(p, 'assessment_business_days', 9);
+    return {
+      comparison: compareNumber(days, standards.assessment_max_business_days, true),
+      reasons: [`Assessment period ${days} business days vs DuraCube maximum ${standards.assessment_max_business_days}`],
+    };
+  },
+
+  14: (p, standards) => {
+    if (p.pay_when_paid) {
+      return { comparison: 'less_favorable', reasons: ['Pay when paid / pay if paid'] };
+    }
+    const days = requireParameter(p, 'payment_days', 14);
+    const basis = requireParameter(p, 'payment_basis', 14);
+
+    if (basis === 'end_of_month') {
+      return {
+        comparison: compareNumber(days, standards.payment_eom_days, true),
+        reasons: [`Payment ${days} days EOM vs DuraCube standard ${standards.payment_eom_days} days EOM`],
+      };
+    }
+
+    // Days from invoice/claim: compliance_logic treats anything over 30 days as non-compliant
+    if (days > standards.payment_max_days) {
+      return {
+        comparison: 'less_favorable',
+        reasons: [`Payment ${days} days from ${basis} exceeds ${standards.payment_max_days} days`],
+      };
+    }
+    return {
+      comparison: days <= standards.payment_eom_days ? 'more_favorable' : 'equal',
+      reasons: [`Payment ${days} days from ${basis} is within ${standards.payment_max_days} days`],
+    };
+  },
+
+  15: (p, standards) => {
+    const reasons: string[] = [];
+
+    if (p.parent_company_guarantee) {
+      reasons.push('Parent company guarantee required - DuraCube never provides PCGs');
+    }
+    if (p.security_form === 'unconditional_bank_guarantee') {
+      reasons.push('Unconditional/on-demand bank guarantee - DuraCube only provides dated guarantees (SEC-003)');
+    }
+    if (p.security_form === 'cash_retention') {
+      reasons.push('Cash retention - DuraCube does not provide cash retention');
+    }
+    if (p.security_form === 'insurance_bond') {
+      reasons.push('Insurance bond - DuraCube only provides dated bank guarantees');
+    }
+    if (p.security_percent !== undefined && p.security_percent > standards.security_max_percent) {
+      reasons.push(`Security ${p.security_percent}% exceeds DuraCube maximum ${standards.security_max_percent}%`);
+    }
+    if (reasons.length > 0) {
+      return { comparison: 'less_favorable', reasons };
+    }
+
+    if (p.security_form === 'none' || p.security_percent === 0) {
+      return {
+        comparison: 'more_favorable',
+        reasons: [`No security required - better than DuraCube standard of ${standards.security_max_percent}% (SEC-001)`],
+      };
+    }
+
+    // Never assume the form: a 5% unconditional guarantee is non-compliant, 5% dated guarantees are not
+    requireParameter(p, 'security_form', 15);
+    const percent = requireParameter(p, 'security_percent', 15);
+    return {
+      comparison: compareNumber(percent, standards.security_max_percent, true),
+      reasons: [`${percent}% dated bank guarantees vs DuraCube standard ${standards.security_max_percent}% (2 x ${standards.security_guarantee_percent}%)`],
+    };
+  },
+
+  16: (p, standards) => {
+    if (p.security_required === false) {
+      return {
+        comparison: 'more_favorable',
+        reasons: ['No security required under Principle 15 - release is automatically compliant (SEC-002)'],
+      };
+    }
+
+    const reasons: string[] = [];
+    if (p.conditional_release) {
+      reasons.push('Release is conditional');
+    }
+    if (p.automatic_expiry === false) {
+      reasons.push('Guarantees do not expire automatically');
+    }
+    if (p.final_release_weeks_after_pc !== undefined && p.final_release_weeks_after_pc > standards.dlp_max_weeks) {
+      reasons.push(`Final release ${p.final_release_weeks_after_pc} weeks after PC - beyond the ${standards.dlp_max_weeks}-week DLP`);
+    }
+    if (p.release_at_pc_percent !== undefined && p.release_at_pc_percent < standards.release_at_pc_percent) {
+      reasons.push(`Only ${p.release_at_pc_percent}% released at PC vs DuraCube standard ${standards.release_at_pc_percent}%`);
+    }
+    if (reasons.length > 0) {
+      return { comparison: 'less_favorable', reasons };
+    }
+
+    const atPc = requireParameter(p, 'release_at_pc_percent', 16);
+    const finalWeeks = requireParameter(p, 'final_release_weeks_after_pc', 16);
+    const better = atPc > standards.release_at_pc_percent || finalWeeks < standards.dlp_max_weeks;
+    return {
+      comparison: better ? 'more_favorable' : 'equal',
+      reasons: [`${atPc}% released at PC, balance ${finalWeeks} weeks after PC`],
+    };
+  },
+
+  17: (p, standards) => {
+    if (p.re_warranty) {
+      return { comparison: 'less_favorable', reasons: ['Re-warranty on rectified work'] };
+    }
+    if (p.dlp_weeks !== undefined) {
+      return {
+        comparison: compareNumber(p.dlp_weeks, standards.dlp_max_weeks, true),
+        reasons: [`DLP ${p.dlp_weeks} weeks vs DuraCube maximum ${standards.dlp_max_weeks} weeks, no re-warranty`],
+      };
+    }
+    const months = requireParameter(p, 'dlp_months', 17);
+    return {
+      comparison: compareNumber(months, standards.dlp_max_months, true),
+      reasons: [`DLP ${months} months vs DuraCube maximum ${standards.dlp_max_months} months, no re-warranty`],
+    };
+  },
+
+  25: (p, standards) => {
+    const reasons: string[] = [];
+
+    if (p.pi_required) {
+      reasons.push('Professional Indemnity insurance required - DuraCube does not provide PI (CRITICAL)');
+    }
+    if (p.public_liability_required !== undefined && p.public_liability_required > standards.public_liability_limit) {
+      reasons.push(`Public liability ${money(p.public_liability_required)} exceeds ${money(standards.public_liability_limit)} (INS-001)`);
+    }
+    if (p.contract_works_required !== undefined && p.contract_works_required > standards.contract_works_limit) {
+      reasons.push(`Contract works ${money(p.contract_works_required)} exceeds ${money(standards.contract_works_limit)}`);
+    }
+    if (p.joint_names) {
+      reasons.push('Joint names required - DuraCube is listed as interested party only');
+    }
+    if (reasons.length > 0) {
+      return { comparison: 'less_favorable', reasons };
+    }
+
+    const stated = [
+      p.public_liability_required !== undefined ? `public liability ${money(p.public_liability_required)}` : null,
+      p.contract_works_required !== undefined ? `contract works ${money(p.contract_works_required)}` : null,
+    ].filter(Boolean);
+
+    if (stated.length === 0) {
+      return { comparison: 'more_favorable', reasons: ['No insurance limits or PI requirement - favorable (INS-002)'] };
+    }
+
+    const atLimit = p.public_liability_required === standards.public_liability_limit
+      || p.contract_works_required === standards.contract_works_limit;
+    return {
+      comparison: atLimit ? 'equal' : 'more_favorable',
+      reasons: [`Requirements within DuraCube limits: ${stated.join(', ')} (INS-001)`],
+    };
+  },
+};
+
+export const QUANTITATIVE_PRINCIPLE_IDS = Object.keys(ASSESSORS).map(Number);
+
+/**
+ * Classify an absent term using the principle's no_term_risk:
+ * burden terms absent are favorable, protective terms absent need insertion
+ */
+function assessAbsent(principle: Principle, parameters: ClauseParameters): { status: Status; reasons: string[] } {
+  const noTermRisk = principle.compliance_logic.no_term_risk;
+
+  if (principle.id === 16) {
+    if (parameters.security_required === false) {
+      return { status: 'Compliant', reasons: ['No security required - no release terms needed (SEC-002)'] };
+    }
+    return { status: 'No Term', reasons: ['Security is required but the contract has no release terms'] };
+  }
+
+  if (noTermRisk.toUpperCase().startsWith('FAVORABLE')) {
+    return {
+      status: 'Compliant',
+      reasons: [`Term absent - ${noTermRisk} (burden term absent = favorable, FAV-001)`],
+    };
+  }
+
+  return {
+    status: 'No Term',
+    reasons: [`Term absent - ${noTermRisk} (protective term absent = departure needed, FAV-001)`],
+  };
+}
+
+/**
+ * Classify a quantitative principle from structured clause parameters using
+ * compliance_logic and methodology.constitutional_logic from principles.json
+ */
+export function assessPrinciple(input: AssessPrincipleInput): string {
+  const { principles: principlesData } = getKnowledgeBase();
+  const { principle_id, term_present, parameters } = input;
+
+  const principle = principlesData.principles.find(p => p.id === principle_id);
+  if (!principle) {
+    throw new Error(`Unknown principle: ${principle_id}`);
+  }
+
+  const assessor = ASSESSORS[principle_id];
+  if (!assessor) {
+    throw new Error(`Principle ${principle_id} (${principle.name}) is not quantitative. Supported principles: ${QUANTITATIVE_PRINCIPLE_IDS.join(', ')}. Classify it against compliance_logic from get_duracube_principles.`);
+  }
+
+  const constitutionalLogic = (principlesData.methodology as {
+    constitutional_logic?: Record<string, string>;
+  }).constitutional_logic ?? {};
+
+  let status: Status;
+  let comparison: Comparison;
+  let reasons: string[];
+
+  if (!term_present) {
+    comparison = 'absent';
+    ({ status, reasons } = assessAbsent(principle, parameters));
+  } else {
+    ({ comparison, reasons } = assessor(parameters, getDuracubeStandards()));
+    status = comparison === 'less_favorable' ? 'Non-Compliant' : 'Compliant';
+  }
+
+  const response = {
+    principle_id: principle.id,
+    name: principle.name,
+    category: principle.category,
+    status,
+    comparison,
+    constitutional_rule: constitutionalLogic[comparison] ?? null,
+    reasons,
+    duracube_standard: principle.standard,
+    compliance_logic: principle.compliance_logic,
+    parameters_used: parameters,
+    departure_needed: status !== 'Compliant',
+    ...(status !== 'Compliant' ? { departure_template: principle.departure_template } : {}),
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const complianceToolDefinitions = {
+  assess_principle: {
+    name: 'assess_principle',
+    description: `Auditable compliance engine for the quantitative principles - returns Compliant, Non-Compliant or No Term with the reason.
+
+Applies compliance_logic and the constitutional logic (equal / more favorable -> COMPLIANT, less favorable -> NON-COMPLIANT,
+absent -> no_term_risk) to structured values extracted from the clause, so the same clause always gets the same status.
+
+SUPPORTED PRINCIPLES AND PARAMETERS:
+- 1  Limitation of Liability: liability_cap_percent, liability_unlimited
+- 4  Liquidated Damages: ld_cap_percent, ld_uncapped, ld_sole_remedy, head_contract_lds_apply
+- 8  Time Bars: notification_business_days, absolute_time_bar
+- 9  Assessment Period: assessment_business_days, assessment_unlimited
+- 14 Payment: payment_days, payment_basis (end_of_month | invoice | claim), pay_when_paid
+- 15 Security: security_percent, security_form, parent_company_guarantee
+- 16 Release of Security: security_required, release_at_pc_percent, final_release_weeks_after_pc, conditional_release, automatic_expiry
+- 17 DLP: dlp_weeks or dlp_months, re_warranty
+- 25 Insurances: public_liability_required, contract_works_required, pi_required, joint_names
+
+Set term_present: false when the contract is silent - burden terms absent are COMPLIANT (favorable), protective terms absent are NO TERM.
+Parameters are never assumed: a security percentage needs security_form, an LD cap needs ld_sole_remedy.`,
+  },
+};
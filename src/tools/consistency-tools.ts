@@ -0,0 +1,283 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import { parseScheduleCsv } from './departure-schedule-tools.js';
+import type { CheckFindingConsistencyInput, DepartureRow } from '../schemas/tool-schemas.js';
+
+type Status = 'Compliant' | 'Non-Compliant' | 'No Term';
+
+interface Fact {
+  value: boolean;
+  source: 'facts' | 'clause_text' | 'status';
+  evidence: string;
+}
+
+interface Contradiction {
+  rule: string;
+  principles: number[];
+  severity: 'error' | 'warning';
+  message: string;
+  evidence: string[];
+  current_statuses: Record<number, string | null>;
+  suggested_statuses: Array<{ no: number; status: Status }>;
+}
+
+// Words that turn "professional indemnity" into "no professional indemnity"
+const NEGATION_PATTERN = /\b(no|not|nil|without|neither|nor|excluded|excluding|except)\b/i;
+
+/**
+ * Find a pattern in clause text, ignoring matches negated earlier in the same sentence
+ */
+function findAffirmed(text: string, pattern: RegExp): string | null {
+  for (const sentence of text.split(/(?<=[.;])\s+|\n+/)) {
+    const match = sentence.match(pattern);
+    if (!match || match.index === undefined) continue;
+    if (NEGATION_PATTERN.test(sentence.slice(0, match.index))) continue;
+    return sentence.trim();
+  }
+  return null;
+}
+
+function normalizeStatus(status: string | undefined): Status | null {
+  const value = (status ?? '').trim().toLowerCase();
+  if (value === 'compliant') return 'Compliant';
+  if (value === 'non-compliant') return 'Non-Compliant';
+  if (value === 'no term') return 'No Term';
+  return null;
+}
+
+/**
+ * Check a full set of findings against interconnected_principles and
+ * critical_non_negotiables, and suggest corrected statuses for contradictions
+ */
+export function checkFindingConsistency(input: CheckFindingConsistencyInput): string {
+  const { principles: principlesData } = getKnowledgeBase();
+  const { rows, csv, facts } = input;
+
+  let findings: DepartureRow[];
+  if (csv && csv.trim()) {
+    findings = parseScheduleCsv(csv).rows;
+  } else if (rows && rows.length > 0) {
+    findings = rows;
+  } else {
+    throw new Error('Provide either rows or csv');
+  }
+
+  const byPrinciple = new Map<number, DepartureRow>();
+  for (const row of findings) {
+    const no = Number(String(row.no).trim());
+    if (Number.isInteger(no) && !byPrinciple.has(no)) {
+      byPrinciple.set(no, row);
+    }
+  }
+
+  const statusOf = (no: number) => normalizeStatus(byPrinciple.get(no)?.status);
+  const clauseOf = (no: number) => byPrinciple.get(no)?.clause ?? '';
+  const missingPrinciples = principlesData.principles
+    .map(p => p.id)
+    .filter(id => !byPrinciple.has(id));
+
+  const contradictions: Contradiction[] = [];
+  const report = (contradiction: Omit<Contradiction, 'current_statuses'>) => {
+    contradictions.push({
+      ...contradiction,
+      current_statuses: Object.fromEntries(
+        contradiction.principles.map(no => [no, byPrinciple.get(no)?.status ?? null])
+      ),
+    });
+  };
+
+  // Facts passed explicitly win; otherwise infer them from statuses and quoted clause text
+  const securityRequired = ((): Fact | null => {
+    if (facts.security_required !== undefined) {
+      return { value: facts.security_required, source: 'facts', evidence: `security_required: ${facts.security_required}` };
+    }
+    if (facts.security_form !== undefined) {
+      return { value: facts.security_form !== 'none', source: 'facts', evidence: `security_form: ${facts.security_form}` };
+    }
+    if (statusOf(15) === 'No Term') {
+      return { value: false, source: 'status', evidence: 'Principle 15 is No Term - the contract has no security term' };
+    }
+    const clause = clauseOf(15).trim();
+    if (statusOf(15) === 'Compliant' && (!clause || /^(N\/?A|nil|none)\b|\bno security\b|\bnot applicable\b/i.test(clause))) {
+      return { value: false, source: 'clause_text', evidence: `Principle 15 clause: "${clause || '(empty)'}"` };
+    }
+    if (clause) {
+      return { value: true, source: 'clause_text', evidence: `Principle 15 clause: "${clause}"` };
+    }
+    return null;
+  })();
+
+  const clauseFact = (
+    explicit: boolean | undefined,
+    explicitLabel: string,
+    principleIds: number[],
+    pattern: RegExp
+  ): Fact | null => {
+    if (explicit !== undefined) {
+      return { value: explicit, source: 'facts', evidence: `${explicitLabel}: ${explicit}` };
+    }
+    for (const no of principleIds) {
+      const sentence = findAffirmed(clauseOf(no), pattern);
+      if (sentence) {
+        return { value: true, source: 'clause_text', evidence: `Principle ${no} clause: "${sentence}"` };
+      }
+    }
+    return null;
+  };
+
+  const piRequired = clauseFact(facts.pi_required, 'pi_required', [25, 28], /professional indemnity|\bPI insurance\b/i);
+  const unconditionalGuarantees = clauseFact(
+    facts.security_form !== undefined ? facts.security_form === 'unconditional_bank_guarantee' : undefined,
+    'security_form',
+    [15],
+    /\bunconditional\b|\bon[- ]demand\b/i
+  );
+  const parentCompanyGuarantee = clauseFact(facts.parent_company_guarantee, 'parent_company_guarantee', [15], /parent company guarantee/i);
+
+  const relationships = principlesData.interconnected_principles;
+  const relationshipText = (a: number, b: number) =>
+    relationships.find(r => r.principle_a === a && r.principle_b === b)?.relationship ?? `Principles ${a} and ${b} are interconnected`;
+
+  const nonNegotiables = principlesData.critical_non_negotiables;
+
+  // Principle 15 -> 16: no security means release is automatically compliant (SEC-002)
+  if (securityRequired && !securityRequired.value) {
+    if (statusOf(15) !== 'Compliant' && byPrinciple.has(15)) {
+      report({
+        rule: 'SEC-001',
+        principles: [15],
+        severity: 'error',
+        message: 'No security required is favorable - Principle 15 is Compliant, not No Term or Non-Compliant',
+        evidence: [securityRequired.evidence],
+        suggested_statuses: [{ no: 15, status: 'Compliant' }],
+      });
+    }
+    if (statusOf(16) !== 'Compliant' && byPrinciple.has(16)) {
+      report({
+        rule: 'interconnected_principles 15-16 (SEC-002)',
+        principles: [15, 16],
+        severity: 'error',
+        message: relationshipText(15, 16),
+        evidence: [securityRequired.evidence, `Principle 16 status: ${byPrinciple.get(16)?.status || '(empty)'}`],
+        suggested_statuses: [{ no: 16, status: 'Compliant' }],
+      });
+    }
+  }
+
+  // Unconditional guarantees break both the security form and its dated release
+  if (unconditionalGuarantees?.value) {
+    if (statusOf(15) !== 'Non-Compliant' && byPrinciple.has(15)) {
+      report({
+        rule: 'critical_non_negotiables.unconditional_guarantees (SEC-003)',
+        principles: [15],
+        severity: 'error',
+        message: nonNegotiables.unconditional_guarantees?.rule ?? 'Unconditional guarantees = NON-COMPLIANT',
+        evidence: [unconditionalGuarantees.evidence],
+        suggested_statuses: [{ no: 15, status: 'Non-Compliant' }],
+      });
+    }
+    if (statusOf(16) === 'Compliant') {
+      report({
+        rule: 'critical_non_negotiables.unconditional_guarantees',
+        principles: [15, 16],
+        severity: 'warning',
+        message: `Unconditional guarantees have no expiry date, so release at PC and end of DLP is not automatic. ${nonNegotiables.unconditional_guarantees?.action ?? ''}`.trim(),
+        evidence: [unconditionalGuarantees.evidence],
+        suggested_statuses: [{ no: 16, status: 'Non-Compliant' }],
+      });
+    }
+  }
+
+  if (parentCompanyGuarantee?.value && statusOf(15) !== 'Non-Compliant' && byPrinciple.has(15)) {
+    report({
+      rule: 'critical_non_negotiables.parent_company_guarantees',
+      principles: [15],
+      severity: 'error',
+      message: nonNegotiables.parent_company_guarantees?.rule ?? 'Parent company guarantees = NON-COMPLIANT',
+      evidence: [parentCompanyGuarantee.evidence],
+      suggested_statuses: [{ no: 15, status: 'Non-Compliant' }],
+    });
+  }
+
+  // Principle 25 <-> 28: a PI requirement means the contract expects professional design services
+  if (piRequired?.value) {
+    if (statusOf(25) !== 'Non-Compliant' && byPrinciple.has(25)) {
+      report({
+        rule: 'critical_non_negotiables.professional_indemnity',
+        principles: [25],
+        severity: 'error',
+        message: nonNegotiables.professional_indemnity?.rule ?? 'Any PI requirement = NON-COMPLIANT',
+        evidence: [piRequired.evidence],
+        suggested_statuses: [{ no: 25, status: 'Non-Compliant' }],
+      });
+    }
+    if (statusOf(28) === 'Compliant') {
+      report({
+        rule: 'interconnected_principles 25-28 (DESIGN-001)',
+        principles: [25, 28],
+        severity: 'warning',
+        message: `${relationshipText(25, 28)}. A PI requirement implies design services beyond shop drawings - recheck the design scope.`,
+        evidence: [piRequired.evidence, `Principle 28 clause: "${clauseOf(28) || '(empty)'}"`],
+        suggested_statuses: [{ no: 28, status: 'Non-Compliant' }],
+      });
+    }
+  }
+
+  // One suggestion per principle; errors outrank warnings
+  const suggested = new Map<number, { status: Status; rules: string[] }>();
+  const severityRank = (c: Contradiction) => (c.severity === 'error' ? 0 : 1);
+  for (const contradiction of [...contradictions].sort((a, b) => severityRank(a) - severityRank(b))) {
+    for (const { no, status } of contradiction.suggested_statuses) {
+      const existing = suggested.get(no);
+      if (!existing) {
+        suggested.set(no, { status, rules: [contradiction.rule] });
+      } else if (existing.status === status) {
+        existing.rules.push(contradiction.rule);
+      }
+    }
+  }
+
+  const response = {
+    consistent: contradictions.length === 0,
+    findings_checked: byPrinciple.size,
+    missing_principles: missingPrinciples,
+    error_count: contradictions.filter(c => c.severity === 'error').length,
+    warning_count: contradictions.filter(c => c.severity === 'warning').length,
+    contradictions,
+    suggested_corrections: [...suggested.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([no, { status, rules }]) => ({
+        no,
+        term: principlesData.principles.find(p => p.id === no)?.name ?? null,
+        current_status: byPrinciple.get(no)?.status ?? null,
+        suggested_status: status,
+        rules,
+      })),
+    facts_inferred: {
+      security_required: securityRequired,
+      unconditional_guarantees: unconditionalGuarantees,
+      parent_company_guarantee: parentCompanyGuarantee,
+      pi_required: piRequired,
+    },
+    relationships_checked: relationships,
+    note: 'Facts marked clause_text are keyword heuristics over the quoted clause. Pass facts to confirm or override them.',
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const consistencyToolDefinitions = {
+  check_finding_consistency: {
+    name: 'check_finding_consistency',
+    description: `Cross-principle consistency check over a full set of 28 findings - run it before generating the schedule.
+
+Enforces interconnected_principles and critical_non_negotiables from principles.json:
+- Principle 15 has no security -> 15 and 16 must be Compliant (SEC-001, SEC-002)
+- Unconditional/on-demand guarantees -> 15 Non-Compliant; 16 release cannot be automatic
+- Parent company guarantee required -> 15 Non-Compliant
+- Professional Indemnity required -> 25 Non-Compliant; 28 Design Liability rechecked (PI implies design services)
+
+Returns each contradiction with its evidence and suggested corrected statuses. Facts are inferred from statuses and
+the quoted clause text unless passed explicitly in facts.`,
+  },
+};
@@ -0,0 +1,358 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import {
+  buildClauseMap,
+  clauseAt,
+  formatReference,
+  resolveContractPages,
+  sentenceSpans,
+  snippetAround,
+  termPattern,
+} from '../utils/contract-text.js';
+import type { ClauseRef, ContractPage } from '../utils/contract-text.js';
+import type { IndexContractStructureInput, ScanContractTextInput } from '../schemas/tool-schemas.js';
+
+type TermType = 'primary' | 'alternative' | 'related';
+
+// Primary terms are the strongest signal; red flags outrank everything
+const TERM_WEIGHTS: Record<TermType, number> = {
+  primary: 3,
+  alternative: 2,
+  related: 1,
+};
+const RED_FLAG_WEIGHT = 4;
+
+// Words in red flag descriptions that describe the flag rather than contract wording
+const RED_FLAG_IGNORED_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'for', 'on', 'in', 'with', 'without', 'that', 'and', 'or',
+  'any', 'no', 'not', 'than', 'beyond', 'over', 'under', 'what', 'which', 'when', 'where',
+  'clause', 'clauses', 'provision', 'provisions', 'requirement', 'requirements', 'required',
+  'term', 'terms', 'demands', 'references', 'reference', 'critical', 'non-compliant',
+  'effectively', 'broad', 'automatic', 'duracube', 'voluntarily', 'offers', 'cross-reference',
+  'principle', 'may', 'each', 'multiple', 'different', 'unclear', 'lack',
+]);
+
+interface CandidateClause {
+  page: number;
+  clause: string | null;
+  reference: string;
+  matched_terms: Array<{ term: string; term_type: TermType; occurrences: number }>;
+  red_flags: string[];
+  snippet: string;
+  score: number;
+}
+
+function clauseLabel(clause: ClauseRef | null): string | null {
+  return clause ? `${clause.kind} ${clause.label}` : null;
+}
+
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length <= 4) return lower;
+  if (lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  return lower.replace(/(es|s|ed|ing)$/, '');
+}
+
+/**
+ * Reduce a red flag description to the words that should appear in contract text.
+ * Slash-separated words ("unconditional/on-demand") are alternatives for one slot.
+ */
+function redFlagKeywords(redFlag: string): string[][] {
+  return redFlag
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\w$]+|[^\w%]+$/g, ''))
+    .filter(word => word && !RED_FLAG_IGNORED_WORDS.has(word.toLowerCase()))
+    .map(word => word.split('/').filter(Boolean).map(stem));
+}
+
+function sentenceMatchesRedFlag(sentence: string, keywords: string[][]): boolean {
+  if (keywords.length === 0) return false;
+
+  const words = new Set(
+    sentence
+      .split(/[\s/]+/)
+      .map(word => word.replace(/^[^\w$]+|[^\w%]+$/g, ''))
+      .filter(Boolean)
+      .map(stem)
+  );
+  const matched = keywords.filter(alternatives => alternatives.some(k => words.has(k))).length;
+  const required = keywords.length <= 2 ? keywords.length : Math.ceil(keywords.length * 0.75);
+
+  return matched >= required;
+}
+
+/**
+ * Run every principle's search terms and red flags over paginated contract text
+ * and return candidate clauses per principle (three-pass extraction, pass 2).
+ */
+export function scanContractText(input: ScanContractTextInput): string {
+  const { principles: principlesData } = getKnowledgeBase();
+  const { principle_ids, max_candidates_per_principle, snippet_length } = input;
+
+  const pages = resolveContractPages(input);
+  const clauseMap = buildClauseMap(pages);
+  const sentencesByPage = new Map(pages.map(p => [p.page, sentenceSpans(p.text)]));
+
+  const principles = principle_ids && principle_ids.length > 0
+    ? principlesData.principles.filter(p => principle_ids.includes(p.id))
+    : principlesData.principles;
+
+  const results = principles.map(principle => {
+    const candidates = new Map<string, CandidateClause>();
+    // Overlapping terms ("set off" / "set-off") must not count the same words twice
+    const seenPositions = new Set<string>();
+    let totalHits = 0;
+
+    const candidateFor = (page: number, offset: number, start: number, end: number, text: string) => {
+      const clause = clauseAt(clauseMap, page, offset);
+      const key = `${page}|${clauseLabel(clause) ?? ''}`;
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        candidate = {
+          page,
+          clause: clauseLabel(clause),
+          reference: formatReference(page, clause),
+          matched_terms: [],
+          red_flags: [],
+          snippet: snippetAround(text, start, end, snippet_length),
+          score: 0,
+        };
+        candidates.set(key, candidate);
+      }
+      return candidate;
+    };
+
+    for (const termType of Object.keys(TERM_WEIGHTS) as TermType[]) {
+      for (const term of principle.search_terms[termType]) {
+        const pattern = termPattern(term);
+        for (const page of pages) {
+          for (const match of page.text.matchAll(pattern)) {
+            const start = match.index ?? 0;
+            const position = `${page.page}:${start}`;
+            if (seenPositions.has(position)) continue;
+            seenPositions.add(position);
+            const candidate = candidateFor(page.page, start, start, start + match[0].length, page.text);
+            const existing = candidate.matched_terms.find(t => t.term === term);
+            if (existing) {
+              existing.occurrences++;
+            } else {
+              candidate.matched_terms.push({ term, term_type: termType, occurrences: 1 });
+              candidate.score += TERM_WEIGHTS[termType];
+            }
+            totalHits++;
+          }
+        }
+      }
+    }
+
+    for (const redFlag of principle.red_flags) {
+      const keywords = redFlagKeywords(redFlag);
+      for (const page of pages) {
+        for (const sentence of sentencesByPage.get(page.page) ?? []) {
+          if (!sentenceMatchesRedFlag(sentence.text, keywords)) continue;
+          const candidate = candidateFor(page.page, sentence.start, sentence.start, sentence.end, page.text);
+          if (!candidate.red_flags.includes(redFlag)) {
+            candidate.red_flags.push(redFlag);
+            candidate.score += RED_FLAG_WEIGHT;
+            // Red flag sentences are the most useful context to show
+            candidate.snippet = snippetAround(page.text, sentence.start, sentence.end, snippet_length);
+          }
+          totalHits++;
+        }
+      }
+    }
+
+    const ranked = [...candidates.values()].sort((a, b) => b.score - a.score || a.page - b.page);
+
+    return {
+      principle_id: principle.id,
+      name: principle.name,
+      category: principle.category,
+      total_hits: totalHits,
+      candidate_count: ranked.length,
+      red_flag_count: ranked.reduce((sum, c) => sum + c.red_flags.length, 0),
+      candidate_clauses: ranked.slice(0, max_candidates_per_principle),
+    };
+  });
+
+  const methodology = principlesData.methodology as {
+    three_pass_extraction?: { pass_2?: string; pass_3?: string };
+  };
+
+  const noHits = results.filter(r => r.total_hits === 0);
+
+  const response = {
+    methodology_step: methodology.three_pass_extraction?.pass_2 ?? 'Targeted Extraction',
+    total_pages: pages.length,
+    page_range: `${pages[0].page}-${pages[pages.length - 1].page}`,
+    principles_scanned: results.length,
+    principles_with_hits: results.length - noHits.length,
+    likely_no_term: noHits.map(r => {
+      const principle = principles.find(p => p.id === r.principle_id)!;
+      return {
+        principle_id: r.principle_id,
+        name: r.name,
+        category: r.category,
+        no_term_risk: principle.compliance_logic.no_term_risk,
+      };
+    }),
+    next_step: methodology.three_pass_extraction?.pass_3
+      ?? 'Validation - Verify no clauses missed, check for conflicts',
+    note: 'Candidates are keyword matches only. Read each clause and classify it against compliance_logic; confirm likely_no_term principles by reviewing the contract structure before marking No Term.',
+    results,
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Headings that open a separate part of the document; clauses and items after them sit one level deeper
+const CONTAINER_KINDS = new Set<ClauseRef['kind']>(['Schedule', 'Annexure', 'Appendix', 'Attachment', 'Exhibit']);
+
+interface TocEntry {
+  reference: string;
+  kind: ClauseRef['kind'];
+  label: string;
+  title: string;
+  level: number;
+  page_start: number;
+  page_end: number;
+  offset: number;
+  location: string;
+}
+
+/**
+ * Depth of a heading: 8 is 1, 8.1 is 2, 8.1(a)(ii) is 4
+ */
+function headingLevel(clause: ClauseRef, inContainer: boolean): number {
+  if (CONTAINER_KINDS.has(clause.kind)) return 1;
+  const [base] = clause.label.split('(');
+  const subparagraphs = (clause.label.match(/\(/g) ?? []).length;
+  return (inContainer ? 1 : 0) + base.split('.').length + subparagraphs;
+}
+
+/**
+ * A heading runs until the next heading at the same or a higher level. It ends
+ * on the previous page when that heading is the first text on its page.
+ */
+function setPageEnds(entries: TocEntry[], pages: ContractPage[]): void {
+  const textByPage = new Map(pages.map(p => [p.page, p.text]));
+  const lastPage = pages[pages.length - 1].page;
+
+  entries.forEach((entry, i) => {
+    const next = entries.slice(i + 1).find(e => e.level <= entry.level);
+    if (!next) {
+      entry.page_end = lastPage;
+      return;
+    }
+    const startsPage = !(textByPage.get(next.page_start) ?? '').slice(0, next.offset).trim();
+    entry.page_end = Math.max(entry.page_start, startsPage ? next.page_start - 1 : next.page_start);
+  });
+}
+
+/**
+ * Map the contract's headings - clauses, sub-clauses, contract particulars
+ * items, schedules and annexures - with their page spans (three-pass extraction, pass 1)
+ */
+export function indexContractStructure(input: IndexContractStructureInput): string {
+  const { principles: principlesData } = getKnowledgeBase();
+  const { max_depth, lookups } = input;
+
+  const pages = resolveContractPages(input);
+  const clauseMap = buildClauseMap(pages);
+
+  const entries: TocEntry[] = [];
+  let inContainer = false;
+  for (const page of pages) {
+    for (const marker of clauseMap.byPage.get(page.page)?.markers ?? []) {
+      inContainer ||= CONTAINER_KINDS.has(marker.clause.kind);
+      entries.push({
+        reference: `${marker.clause.kind} ${marker.clause.label}`,
+        kind: marker.clause.kind,
+        label: marker.clause.label,
+        title: marker.title,
+        level: headingLevel(marker.clause, inContainer),
+        page_start: page.page,
+        page_end: page.page,
+        offset: marker.offset,
+        location: formatReference(page.page, marker.clause),
+      });
+    }
+  }
+  setPageEnds(entries, pages);
+
+  // A lookup that misses the text is reported on its own rather than failing the others
+  const pageTexts = new Map(pages.map(p => [p.page, p.text]));
+  const references = lookups?.map(({ page, offset }) => {
+    const text = pageTexts.get(page);
+    if (text === undefined) {
+      return { page, offset, reference: null, error: `Page ${page} is not in the contract text (pages ${pages[0].page}-${pages[pages.length - 1].page})` };
+    }
+    if (offset > text.length) {
+      return { page, offset, reference: null, error: `Offset ${offset} is past the end of page ${page} (${text.length} characters)` };
+    }
+    return { page, offset, reference: formatReference(page, clauseAt(clauseMap, page, offset)) };
+  });
+
+  const methodology = principlesData.methodology as {
+    three_pass_extraction?: { pass_1?: string; pass_2?: string };
+  };
+
+  const response = {
+    methodology_step: methodology.three_pass_extraction?.pass_1 ?? 'Structure Mapping',
+    total_pages: pages.length,
+    page_range: `${pages[0].page}-${pages[pages.length - 1].page}`,
+    heading_counts: {
+      clauses: entries.filter(e => e.kind === 'Clause').length,
+      items: entries.filter(e => e.kind === 'Item').length,
+      schedules_and_annexures: entries.filter(e => CONTAINER_KINDS.has(e.kind)).length,
+    },
+    table_of_contents: max_depth ? entries.filter(e => e.level <= max_depth) : entries,
+    // The clause open at the top of each page; with the headings' offsets this places any position
+    pages: pages.map(page => ({
+      page: page.page,
+      continues: clauseLabel(clauseMap.byPage.get(page.page)?.carried ?? null),
+      headings: clauseMap.byPage.get(page.page)?.markers.length ?? 0,
+    })),
+    references,
+    next_step: methodology.three_pass_extraction?.pass_2
+      ?? 'Targeted Extraction - Search using principle keywords from search_terms',
+    note: 'Use location as the Page column ("Page X, Clause Y", learning PAGE-001). Offsets count characters from the start of each page\'s text.',
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const contractScanToolDefinitions = {
+  scan_contract_text: {
+    name: 'scan_contract_text',
+    description: `Deterministic clause scanner - runs every principle's search terms and red flags over the contract text server-side.
+
+This tool provides:
+- Candidate clauses per principle with "Page X, Clause Y" references
+- Matched search terms (primary / alternative / related) and the surrounding snippet
+- Red flag hits from principles.json, ranked above plain keyword matches
+- A list of principles with zero hits to flag as likely "No Term"
+
+INPUT: Contract text with page markers on their own line ('--- Page 12 ---', '[Page 12]') or a pages array.
+
+This is pass 2 (Targeted Extraction) of the three-pass methodology. It is repeatable and does not miss
+clauses deep in 150+ page contracts. Classification is still required - read each candidate against the
+principle's compliance_logic before assigning a status.`,
+  },
+  index_contract_structure: {
+    name: 'index_contract_structure',
+    description: `Structure mapper - detects the contract's clause numbering and builds a table of contents server-side.
+
+This tool provides:
+- Every heading: clauses and sub-clauses (8, 8.1, 8.1(a)(ii)), contract particulars items ("Item 15"), schedules and annexures
+- The heading's title, depth and the pages it spans
+- The canonical "Page X, Clause Y" location of each heading, and of any page/offset passed in lookups
+
+INPUT: Contract text with page markers on their own line ('--- Page 12 ---', '[Page 12]') or a pages array.
+
+This is pass 1 (Structure Mapping) of the three-pass methodology. Use the locations it returns for the
+Page column so every reference has both page and clause (learning PAGE-001), and the page spans to choose
+the pages for each section group. Use max_depth to shorten the table of contents for long contracts.`,
+  },
+};
@@ -0,0 +1,324 @@
+import { getDuracubeStandards, getKnowledgeBase } from './knowledge-tools.js';
+import type { DecisionTreeFacts, DecisionTreeName, RunDecisionTreeInput } from '../schemas/tool-schemas.js';
+
+type Status = 'Compliant' | 'Non-Compliant' | 'No Term';
+
+// Decision trees that assess a specific principle; no_term_assessment applies to all of them
+export const PRINCIPLE_DECISION_TREES: Partial<Record<number, DecisionTreeName>> = {
+  15: 'security_assessment',
+  16: 'security_assessment',
+  17: 'dlp_assessment',
+  25: 'insurance_assessment',
+};
+
+interface DecisionStep {
+  node: string;
+  question: string;
+  answer: string;
+  outcome: string | null;
+  learning_ids: string[];
+}
+
+interface TreeResult {
+  status: Status;
+  favorable: boolean;
+  path: DecisionStep[];
+}
+
+/**
+ * Records the path through a tree. Outcome text is read from
+ * learnings.json decision_trees so the trace quotes the documented rule.
+ */
+class DecisionTrace {
+  readonly path: DecisionStep[] = [];
+
+  constructor(
+    private readonly treeName: DecisionTreeName,
+    private readonly tree: Record<string, unknown>
+  ) {}
+
+  step(question: string, answer: string, learningIds: string[] = [], node?: string): void {
+    const outcome = node !== undefined ? this.tree[node] : undefined;
+    this.path.push({
+      node: node !== undefined ? `${this.treeName}.${node}` : this.treeName,
+      question,
+      answer,
+      outcome: typeof outcome === 'string'
+        ? outcome
+        : (outcome as { action?: string } | undefined)?.action ?? null,
+      learning_ids: learningIds,
+    });
+  }
+
+  finish(status: Status, favorable = false): TreeResult {
+    return { status, favorable, path: this.path };
+  }
+}
+
+function requireFact<K extends keyof DecisionTreeFacts>(
+  facts: DecisionTreeFacts,
+  key: K,
+  tree: DecisionTreeName
+): NonNullable<DecisionTreeFacts[K]> {
+  const value = facts[key];
+  if (value === undefined || value === null) {
+    throw new Error(`${tree} needs fact '${String(key)}'`);
+  }
+  return value as NonNullable<DecisionTreeFacts[K]>;
+}
+
+function parseDate(value: string, fact: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${fact}: ${value}`);
+  }
+  return date;
+}
+
+// Same day of the month, n calendar months later (UTC, as ISO dates parse)
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+function runNoTermAssessment(trace: DecisionTrace, tree: Record<string, unknown>, facts: DecisionTreeFacts): TreeResult {
+  const question = String(tree.question ?? 'Would this term PROTECT or BURDEN DuraCube?');
+  let effect = facts.term_effect;
+
+  if (facts.principle_id === 16) {
+    // Release of security has no effect of its own - it follows Principle 15
+    const securityRequired = requireFact(facts, 'security_required', 'no_term_assessment');
+    trace.step(
+      'Principle 16 depends on Principle 15 - is any security required?',
+      securityRequired ? 'Yes - security is required but there are no release terms' : 'No - no security is required',
+      ['SEC-002']
+    );
+    if (!securityRequired) {
+      return trace.finish('Compliant', true);
+    }
+    effect = 'protect';
+  }
+
+  // Insurance and security are the burden terms most often mis-marked as No Term
+  const learningIds = ['FAV-001'];
+  if (facts.principle_id === 15) learningIds.push('SEC-001');
+  if (facts.principle_id === 25) learningIds.push('INS-002');
+
+  if (!effect) {
+    const principleId = requireFact(facts, 'principle_id', 'no_term_assessment');
+    const principle = getKnowledgeBase().principles.principles.find(p => p.id === principleId);
+    if (!principle) {
+      throw new Error(`Unknown principle: ${principleId}`);
+    }
+    const noTermRisk = principle.compliance_logic.no_term_risk;
+    effect = noTermRisk.toUpperCase().startsWith('FAVORABLE') ? 'burden' : 'protect';
+    trace.step(question, `${effect.toUpperCase()} - Principle ${principle.id} no_term_risk: "${noTermRisk}"`, learningIds, effect);
+  } else {
+    trace.step(question, `${effect.toUpperCase()} (stated)`, learningIds, effect);
+  }
+
+  return effect === 'burden' ? trace.finish('Compliant', true) : trace.finish('No Term');
+}
+
+function runSecurityAssessment(trace: DecisionTrace, facts: DecisionTreeFacts): TreeResult {
+  const standards = getDuracubeStandards();
+  const noSecurity = facts.security_required === false
+    || facts.security_form === 'none'
+    || facts.security_percent === 0;
+
+  trace.step(
+    'Is any security required?',
+    noSecurity ? 'No - N/A or 0% security' : 'Yes',
+    noSecurity ? ['SEC-001', 'SEC-002'] : [],
+    noSecurity ? 'no_security' : undefined
+  );
+  if (noSecurity) {
+    return trace.finish('Compliant', true);
+  }
+
+  if (facts.parent_company_guarantee) {
+    trace.step('Is a parent company guarantee required?', 'Yes', [], 'parent_company_guarantee');
+    return trace.finish('Non-Compliant');
+  }
+
+  const form = requireFact(facts, 'security_form', 'security_assessment');
+  // METHOD-001: the form comes from the original template, not inserted mark-ups
+  switch (form) {
+    case 'unconditional_bank_guarantee':
+      trace.step('What form of security is required?', 'Unconditional / on-demand bank guarantees', ['SEC-003', 'METHOD-001'], 'unconditional_guarantees');
+      return trace.finish('Non-Compliant');
+    case 'cash_retention':
+      trace.step('What form of security is required?', 'Cash retention', ['METHOD-001'], 'cash_retention');
+      return trace.finish('Non-Compliant');
+    case 'insurance_bond':
+      trace.step('What form of security is required?', 'Insurance bond - not a dated bank guarantee', ['SEC-003', 'METHOD-001']);
+      return trace.finish('Non-Compliant');
+    default:
+      trace.step('What form of security is required?', 'Dated bank guarantees', ['SEC-003', 'METHOD-001']);
+  }
+
+  const percent = requireFact(facts, 'security_percent', 'security_assessment');
+  if (percent > standards.security_max_percent) {
+    trace.step(`Is total security above ${standards.security_max_percent}%?`, `Yes - ${percent}%`, [], 'over_5_percent');
+    return trace.finish('Non-Compliant');
+  }
+
+  trace.step(
+    `Is total security above ${standards.security_max_percent}%?`,
+    `No - ${percent}%`,
+    percent < standards.security_max_percent ? ['SEC-001'] : [],
+    'dated_guarantees_5_percent'
+  );
+  return trace.finish('Compliant', percent < standards.security_max_percent);
+}
+
+function runInsuranceAssessment(trace: DecisionTrace, facts: DecisionTreeFacts): TreeResult {
+  const standards = getDuracubeStandards();
+  if (facts.pi_required) {
+    trace.step('Does the contract require Professional Indemnity insurance?', 'Yes', ['INS-002'], 'pi_required');
+    return trace.finish('Non-Compliant');
+  }
+  trace.step('Does the contract require Professional Indemnity insurance?', 'No', ['INS-002']);
+
+  const { public_liability_required: publicLiability, contract_works_required: contractWorks } = facts;
+  const limitsStated = publicLiability !== undefined || contractWorks !== undefined;
+
+  if (!limitsStated && facts.insurance_limits_specified !== true) {
+    trace.step('Does the contract specify insurance requirements or limits?', 'No', ['INS-002', 'FAV-001'], 'no_requirements');
+    return trace.finish('Compliant', true);
+  }
+  if (!limitsStated) {
+    throw new Error('insurance_assessment needs public_liability_required or contract_works_required when limits are specified');
+  }
+
+  const exceeded: string[] = [];
+  if (publicLiability !== undefined && publicLiability > standards.public_liability_limit) {
+    exceeded.push(`public liability $${publicLiability.toLocaleString('en-AU')} > $${standards.public_liability_limit.toLocaleString('en-AU')}`);
+  }
+  if (contractWorks !== undefined && contractWorks > standards.contract_works_limit) {
+    exceeded.push(`contract works $${contractWorks.toLocaleString('en-AU')} > $${standards.contract_works_limit.toLocaleString('en-AU')}`);
+  }
+
+  if (exceeded.length > 0) {
+    trace.step('Do the requirements exceed DuraCube limits?', `Yes - ${exceeded.join('; ')}`, ['INS-001'], 'exceeds_limits');
+    return trace.finish('Non-Compliant');
+  }
+
+  trace.step('Do the requirements exceed DuraCube limits?', 'No', ['INS-001'], 'within_limits');
+  return trace.finish('Compliant');
+}
+
+function runDlpAssessment(trace: DecisionTrace, facts: DecisionTreeFacts): TreeResult {
+  const standards = getDuracubeStandards();
+  const question = 'How long is the Defects Liability Period (DLP clause only, not warranty schedules)?';
+  let withinPeriod: boolean;
+
+  if (facts.dlp_start_date && facts.dlp_end_date) {
+    const start = parseDate(facts.dlp_start_date, 'dlp_start_date');
+    const end = parseDate(facts.dlp_end_date, 'dlp_end_date');
+    const days = Math.round((end.getTime() - start.getTime()) / 86_400_000);
+    // 12 months from 1 January ends on 1 January (365 or 366 days), past 52 weeks (364 days)
+    const withinWeeks = days <= standards.dlp_max_weeks * 7;
+    const withinMonths = end.getTime() <= addMonths(start, standards.dlp_max_months).getTime();
+    withinPeriod = withinWeeks || withinMonths;
+    trace.step(
+      question,
+      `${days} calendar days (${(days / 7).toFixed(1)} weeks) between ${facts.dlp_start_date} and ${facts.dlp_end_date}`,
+      ['DLP-001', 'DLP-002'],
+      withinWeeks ? '52_weeks_or_less' : withinMonths ? '12_months_or_less' : 'over_12_months'
+    );
+  } else if (facts.dlp_weeks !== undefined) {
+    withinPeriod = facts.dlp_weeks <= standards.dlp_max_weeks;
+    trace.step(question, `${facts.dlp_weeks} weeks`, ['DLP-001'], withinPeriod ? '52_weeks_or_less' : 'over_52_weeks');
+  } else {
+    const months = requireFact(facts, 'dlp_months', 'dlp_assessment');
+    withinPeriod = months <= standards.dlp_max_months;
+    trace.step(question, `${months} months`, ['DLP-001'], withinPeriod ? '12_months_or_less' : 'over_12_months');
+  }
+
+  if (!withinPeriod) {
+    return trace.finish('Non-Compliant');
+  }
+
+  if (facts.re_warranty) {
+    trace.step('Does rectified work attract a fresh defects period (re-warranty)?', 'Yes', [], 'no_re_warranty');
+    return trace.finish('Non-Compliant');
+  }
+  trace.step('Does rectified work attract a fresh defects period (re-warranty)?', 'No', [], 'no_re_warranty');
+
+  if (facts.extended_warranty_required === false) {
+    trace.step('Does the contract require a long product warranty?', 'No', ['DLP-001'], '15_year_warranty_not_required');
+    return trace.finish('Compliant', true);
+  }
+  if (facts.extended_warranty_required) {
+    trace.step('Does the contract require a long product warranty?', 'Yes - warranty is separate from the DLP and not assessed under Principle 17', ['DLP-001']);
+  }
+
+  return trace.finish('Compliant');
+}
+
+/**
+ * Run one of the learnings.json decision trees over facts found in the contract
+ * and return the status together with the path taken through the tree
+ */
+export function runDecisionTree(input: RunDecisionTreeInput): string {
+  const { learnings: learningsData } = getKnowledgeBase();
+  const { tree: treeName, facts } = input;
+
+  const tree = learningsData.decision_trees[treeName] as Record<string, unknown> | undefined;
+  if (!tree) {
+    throw new Error(`Unknown decision tree: ${treeName}`);
+  }
+
+  const trace = new DecisionTrace(treeName, tree);
+  let result: TreeResult;
+
+  switch (treeName) {
+    case 'no_term_assessment':
+      result = runNoTermAssessment(trace, tree, facts);
+      break;
+    case 'security_assessment':
+      result = runSecurityAssessment(trace, facts);
+      break;
+    case 'insurance_assessment':
+      result = runInsuranceAssessment(trace, facts);
+      break;
+    case 'dlp_assessment':
+      result = runDlpAssessment(trace, facts);
+      break;
+  }
+
+  const learningIds = [...new Set(result.path.flatMap(step => step.learning_ids))];
+
+  const response = {
+    tree: treeName,
+    status: result.status,
+    favorable: result.favorable,
+    departure_needed: result.status !== 'Compliant',
+    path: result.path,
+    learnings_applied: learningsData.learnings
+      .filter(l => learningIds.includes(l.id))
+      .map(l => ({ id: l.id, rule: l.rule })),
+    facts_used: facts,
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const decisionTreeToolDefinitions = {
+  run_decision_tree: {
+    name: 'run_decision_tree',
+    description: `Runs a decision tree from learnings.json over the facts found in the contract and returns the status with the path taken.
+
+TREES:
+- no_term_assessment: Term absent - would it PROTECT (No Term, departure) or BURDEN (Compliant, favorable) DuraCube? Facts: principle_id or term_effect
+- security_assessment: Principle 15. Facts: security_required, security_form, security_percent, parent_company_guarantee
+- insurance_assessment: Principle 25. Facts: pi_required, insurance_limits_specified, public_liability_required, contract_works_required
+- dlp_assessment: Principle 17. Facts: dlp_weeks, dlp_months or dlp_start_date + dlp_end_date, re_warranty, extended_warranty_required
+
+Every step in the path cites the learning IDs it applies (e.g. SEC-001, DLP-002, FAV-001).
+Use it whenever a term is absent - marking an absent burden term as "No Term" is the most common review error.`,
+  },
+};
@@ -0,0 +1,218 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import { buildClauseMap, clauseAt, formatReference, resolveContractPages, termPattern } from '../utils/contract-text.js';
+import type { ContractPage } from '../utils/contract-text.js';
+import { tokenize } from '../utils/bm25.js';
+import type { ExtractDefinedTermsInput } from '../schemas/tool-schemas.js';
+
+type DefinitionKind = 'means' | 'has_the_meaning' | 'includes' | 'inline';
+
+interface DefinedTerm {
+  term: string;
+  kind: DefinitionKind;
+  definition: string;
+  refers_to: string[];
+  source: string;
+  occurrences: number;
+}
+
+// "Contract Sum" means ..., (a) “Security” has the meaning given in clause 15.1
+const QUOTED_DEFINITION = /^(?:\(?[a-z0-9]{1,4}[.)]\s+)?["“‘']([^"”’']{1,80})["”’']\s*(?:,\s*)?(means|shall mean|has the meaning|have the meaning|includes|is defined)\b/i;
+// Contract Sum means ... where the PDF text lost the bold or quotes around the term
+const PLAIN_DEFINITION = /^(?:\(?[a-z0-9]{1,4}[.)]\s+)?((?:[A-Z][\w'’&/-]*)(?:\s+(?:[A-Z][\w'’&/-]*|of|and|for|to|the|in|on)){0,5})\s+(means|has the meaning|includes)\b/;
+const PLAIN_EXCLUDED_STARTS = /^(The|This|That|These|Those|It|Each|Any|A|An|Such|Where|If)\b/;
+// ABC Pty Ltd (the "Principal")
+const INLINE_DEFINITION = /\((?:the|each|a|an|together|collectively)?\s*(?:the\s+)?["“]([^"”]{2,60})["”]\)/g;
+const CROSS_REFERENCE = /\b(clause|item|schedule|annexure|section|appendix)\s+([0-9A-Z][\w.]*(?:\([a-z0-9]{1,5}\))*)/gi;
+const NUMBERED_LINE = /^\d{1,3}(?:\.\d{1,3})*\.?\s+[A-Z]/;
+const MAX_DEFINITION_LENGTH = 400;
+const DOLLAR_MENTIONS_CATEGORY = 9;
+
+function definitionKind(verb: string): DefinitionKind {
+  const lower = verb.toLowerCase();
+  if (lower.includes('meaning') || lower === 'is defined') return 'has_the_meaning';
+  if (lower === 'includes') return 'includes';
+  return 'means';
+}
+
+function matchDefinitionStart(line: string): { term: string; verb: string } | null {
+  const trimmed = line.trim();
+  const quoted = QUOTED_DEFINITION.exec(trimmed);
+  if (quoted) return { term: quoted[1].trim(), verb: quoted[2] };
+  const plain = PLAIN_DEFINITION.exec(trimmed);
+  if (plain && !PLAIN_EXCLUDED_STARTS.test(plain[1])) return { term: plain[1].trim(), verb: plain[2] };
+  return null;
+}
+
+function crossReferences(text: string): string[] {
+  return [...new Set([...text.matchAll(CROSS_REFERENCE)].map(m => `${m[1][0].toUpperCase()}${m[1].slice(1).toLowerCase()} ${m[2].replace(/\.$/, '')}`))];
+}
+
+function truncate(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_DEFINITION_LENGTH ? `${collapsed.slice(0, MAX_DEFINITION_LENGTH).trimEnd()}…` : collapsed;
+}
+
+/**
+ * Find every definition line by line. A definition runs on until a blank
+ * line, the next definition or a numbered heading.
+ */
+function findDefinitions(pages: ContractPage[]): Array<Omit<DefinedTerm, 'occurrences'>> {
+  const clauseMap = buildClauseMap(pages);
+  const definitions: Array<Omit<DefinedTerm, 'occurrences'>> = [];
+
+  for (const page of pages) {
+    const lines = page.text.split('\n');
+    let offset = 0;
+    let open: { term: string; kind: DefinitionKind; lines: string[]; source: string } | null = null;
+
+    const close = () => {
+      if (!open) return;
+      const definition = truncate(open.lines.join(' '));
+      definitions.push({ term: open.term, kind: open.kind, definition, refers_to: crossReferences(definition), source: open.source });
+      open = null;
+    };
+
+    for (const line of lines) {
+      const start = matchDefinitionStart(line);
+      if (start) {
+        close();
+        open = {
+          term: start.term,
+          kind: definitionKind(start.verb),
+          lines: [line.trim()],
+          source: formatReference(page.page, clauseAt(clauseMap, page.page, offset)),
+        };
+      } else if (open && line.trim() && !NUMBERED_LINE.test(line.trim())) {
+        open.lines.push(line.trim());
+      } else {
+        close();
+      }
+
+      for (const inline of line.matchAll(INLINE_DEFINITION)) {
+        const before = line.slice(0, inline.index ?? 0).trim();
+        definitions.push({
+          term: inline[1].trim(),
+          kind: 'inline',
+          definition: truncate(`${before} ${inline[0]}`),
+          refers_to: [],
+          source: formatReference(page.page, clauseAt(clauseMap, page.page, offset)),
+        });
+      }
+
+      offset += line.length + 1;
+    }
+    close();
+  }
+
+  return definitions;
+}
+
+// Defined terms are capitalised, so uses are counted case-sensitively
+function countOccurrences(pages: ContractPage[], term: string): number {
+  const pattern = new RegExp(termPattern(term).source, 'g');
+  return pages.reduce((sum, page) => sum + [...page.text.matchAll(pattern)].length, 0);
+}
+
+/**
+ * Whether a defined term names what a search term looks for, ignoring case,
+ * plurals and filler words ("Variation" and "variations"). The search term
+ * must sit inside the defined term, so "Principal" does not match "principal contract".
+ */
+function definesSearchTerm(term: string, searchTerm: string): boolean {
+  const defined = ` ${tokenize(term).join(' ')} `;
+  const searched = ` ${tokenize(searchTerm).join(' ')} `;
+  return searched.trim().length > 0 && defined.includes(searched);
+}
+
+/**
+ * Build a glossary of the contract's defined terms and flag the ones that
+ * redefine a principle's search terms or a finance extraction field
+ */
+export function extractDefinedTerms(input: ExtractDefinedTermsInput): string {
+  const { principles: principlesData, financeExtraction } = getKnowledgeBase();
+  const pages = resolveContractPages(input);
+
+  const found = findDefinitions(pages);
+
+  // The first definition of a term is the glossary entry; later different ones are conflicts
+  const glossary: DefinedTerm[] = [];
+  const conflicts: Array<{ term: string; sources: string[]; definitions: string[] }> = [];
+  for (const definition of found) {
+    const existing = glossary.find(entry => entry.term.toLowerCase() === definition.term.toLowerCase());
+    if (!existing) {
+      glossary.push({ ...definition, occurrences: countOccurrences(pages, definition.term) });
+    } else if (existing.definition !== definition.definition && existing.kind !== 'inline' && definition.kind !== 'inline') {
+      const conflict = conflicts.find(c => c.term === existing.term);
+      if (conflict) {
+        conflict.sources.push(definition.source);
+        conflict.definitions.push(definition.definition);
+      } else {
+        conflicts.push({
+          term: existing.term,
+          sources: [existing.source, definition.source],
+          definitions: [existing.definition, definition.definition],
+        });
+      }
+    }
+  }
+
+  const principleAnnotations = principlesData.principles.flatMap(principle => {
+    const searchTerms = [...principle.search_terms.primary, ...principle.search_terms.alternative];
+    const definedTerms = glossary.flatMap(entry => {
+      const matched = searchTerms.find(searchTerm => definesSearchTerm(entry.term, searchTerm));
+      return matched ? [{ term: entry.term, matched_search_term: matched, definition: entry.definition, source: entry.source }] : [];
+    });
+    return definedTerms.length > 0 ? [{ principle_id: principle.id, name: principle.name, defined_terms: definedTerms }] : [];
+  });
+
+  // Every defined amount is a dollar mention, so category 9 says nothing about meaning
+  const financeAnnotations = financeExtraction.extraction_categories.filter(c => c.id !== DOLLAR_MENTIONS_CATEGORY).flatMap(category => {
+    const names = [...category.search_terms.primary, ...category.search_terms.secondary, ...(category.alternative_names ?? [])];
+    const definedTerms = glossary.flatMap(entry => {
+      const matched = names.find(name => definesSearchTerm(entry.term, name));
+      return matched ? [{ term: entry.term, matched_name: matched, definition: entry.definition, source: entry.source }] : [];
+    });
+    return definedTerms.length > 0 ? [{ category_id: category.id, name: category.name, defined_terms: definedTerms }] : [];
+  });
+
+  // The clause holding most of the definitions is the definitions clause
+  const sourceCounts = new Map<string, number>();
+  for (const entry of glossary.filter(e => e.kind !== 'inline')) {
+    sourceCounts.set(entry.source, (sourceCounts.get(entry.source) ?? 0) + 1);
+  }
+  const definitionsClause = [...sourceCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const response = {
+    total_pages: pages.length,
+    page_range: `${pages[0].page}-${pages[pages.length - 1].page}`,
+    definitions_clause: definitionsClause,
+    terms_defined: glossary.length,
+    glossary,
+    principle_annotations: principleAnnotations,
+    finance_annotations: financeAnnotations,
+    conflicts,
+    note: glossary.length === 0
+      ? 'No definitions found. Definitions may sit in a separate document (e.g. the head contract or general conditions) - ask for it before relying on ordinary meanings.'
+      : 'Where a principle or finance field is annotated, read the contract term by its definition rather than its ordinary meaning (e.g. a narrow "Consequential Loss" or an extraction value labelled "Subcontract Sum").',
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const definedTermsToolDefinitions = {
+  extract_defined_terms: {
+    name: 'extract_defined_terms',
+    description: `Build a glossary of the contract's defined terms - '"Contract Sum" means ...', '"Security" has the meaning given in clause 15.1', 'ABC Pty Ltd (the "Principal")'.
+
+This tool provides:
+- Each term with its definition, the clauses and items it refers to, its "Page X, Clause Y" source and how often it is used
+- The definitions clause, and terms defined more than once with different wording
+- principle_annotations: defined terms that redefine a principle's search terms (e.g. a bespoke "Consequential Loss" or "Variation")
+- finance_annotations: defined terms that name a finance extraction field (e.g. "Subcontract Sum" for Contract Value)
+
+INPUT: Contract text with page markers on their own line ('--- Page 12 ---', '[Page 12]') or a pages array.
+
+Run it before scan_contract_text and the finance extraction so clauses are read with the contract's own meanings.`,
+  },
+};
@@ -0,0 +1,501 @@
+import ExcelJS from 'exceljs';
+import { getKnowledgeBase } from './knowledge-tools.js';
+import { parseCsv } from '../utils/csv.js';
+import type {
+  DepartureRow,
+  ValidateDepartureScheduleInput,
+  GenerateDepartureScheduleXlsxInput,
+} from '../schemas/tool-schemas.js';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const COLUMN_HEADERS = ['No', 'Term', 'Status', 'Page', 'Clause', 'Departure', 'Comments'];
+const COLUMN_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+// "Page 5, Clause 8.1", "Page 39, Item 15", "Page 2, Clause 7(a)" - see learning PAGE-001
+export const PAGE_REFERENCE_PATTERN =
+  /^Pages?\s+\d+(?:\s*[-–]\s*\d+)?,\s*(?:Clause|Item|Schedule|Annexure|Annex|Appendix|Attachment|Exhibit|Section|Part|Recital|Table|Special Condition)\s+\S+/i;
+const NOT_APPLICABLE_PATTERN = /^N\/?A$/i;
+const TITLE_PATTERN = /^[^_]+_.+_\$[\d,.]+[kKmM]?$/;
+
+interface RowViolation {
+  row: number;
+  line?: number;
+  no: number | string;
+  term: string;
+  violations: string[];
+}
+
+export interface ScheduleValidationReport {
+  valid: boolean;
+  total_rows: number;
+  rows_with_violations: number;
+  violation_count: number;
+  missing_principles: number[];
+  schedule_violations: string[];
+  row_violations: RowViolation[];
+}
+
+export interface ParsedCsvSchedule {
+  title: string | null;
+  rows: Array<DepartureRow & { line: number; section: 1 | 2 | null }>;
+}
+
+/**
+ * Parse the fallback CSV layout: metadata row, optional section header rows,
+ * one or more "No,Term,Status,..." header rows, then data rows.
+ */
+export function parseScheduleCsv(csv: string): ParsedCsvSchedule {
+  const records = parseCsv(csv);
+  const parsed: ParsedCsvSchedule = { title: null, rows: [] };
+  let headerSeen = false;
+  let section: 1 | 2 | null = null;
+
+  records.forEach((cells, index) => {
+    const line = index + 1;
+    const first = (cells[0] ?? '').trim();
+    const rest = cells.slice(1).some(cell => cell.trim() !== '');
+
+    if (!first && !rest) return;
+
+    if (/^no$/i.test(first) && /^term$/i.test((cells[1] ?? '').trim())) {
+      headerSeen = true;
+      return;
+    }
+
+    const sectionMatch = first.match(/^SECTION\s+([12])\b/i);
+    if (sectionMatch && !rest) {
+      section = sectionMatch[1] === '1' ? 1 : 2;
+      return;
+    }
+
+    if (!headerSeen) {
+      if (parsed.title === null && !rest) {
+        parsed.title = first;
+      }
+      return;
+    }
+
+    parsed.rows.push({
+      line,
+      section,
+      no: first,
+      term: (cells[1] ?? '').trim(),
+      status: (cells[2] ?? '').trim(),
+      page: (cells[3] ?? '').trim(),
+      clause: (cells[4] ?? '').trim(),
+      departure: (cells[5] ?? '').trim(),
+      comments: (cells[6] ?? '').trim(),
+    });
+  });
+
+  return parsed;
+}
+
+/**
+ * Check schedule rows against format.json. Shared by the validator tool and
+ * the Excel generator so both apply exactly the same rules.
+ */
+export function validateScheduleRows(
+  rows: Array<DepartureRow & { line?: number; section?: 1 | 2 | null }>,
+  title: string | null | undefined
+): ScheduleValidationReport {
+  const { principles: principlesData, format } = getKnowledgeBase();
+  const { section_1, section_2 } = format.excel_structure.section_structure;
+  const allowedStatuses = format.column_specifications.Status.allowed_values ?? ['Compliant', 'Non-Compliant', 'No Term'];
+  const actionVerbs = format.column_specifications.Departure.action_verbs ?? ['Insert:', 'Replace:', 'Amend:', 'Delete:'];
+  const expectedOrder = [...section_1.principles, ...section_2.principles];
+
+  const scheduleViolations: string[] = [];
+  const rowViolations: RowViolation[] = [];
+  const occurrences = new Map<number, number[]>();
+  let highestOrderIndex = -1;
+  let highestOrderPrinciple: number | null = null;
+
+  if (title !== undefined) {
+    if (!title) {
+      scheduleViolations.push('Missing metadata header row (CustomerName_ProjectName_$ContractValue)');
+    } else if (!TITLE_PATTERN.test(title.trim())) {
+      scheduleViolations.push(`Metadata header '${title}' does not follow CustomerName_ProjectName_$ContractValue`);
+    }
+  }
+
+  rows.forEach((row, index) => {
+    const violations: string[] = [];
+    const no = typeof row.no === 'number' ? row.no : parseInt(String(row.no).trim(), 10);
+    const principle = Number.isInteger(no) ? principlesData.principles.find(p => p.id === no) : undefined;
+    const status = row.status.trim();
+    const page = row.page.trim();
+    const departure = row.departure.trim();
+
+    if (!principle) {
+      violations.push(`No '${row.no}' is not a principle number (1-28)`);
+    } else {
+      occurrences.set(no, [...(occurrences.get(no) ?? []), index + 1]);
+
+      if (row.term.trim() !== principle.name) {
+        violations.push(`Term must match the official principle name exactly: '${principle.name}'`);
+      }
+
+      // Order: all Non-Negotiable rows, then Negotiable, by principle number within each
+      const orderIndex = expectedOrder.indexOf(no);
+      if (orderIndex < highestOrderIndex) {
+        violations.push(`Out of order: principle ${no} must come before principle ${highestOrderPrinciple} (${section_1.name} first, then ${section_2.name}, by principle number)`);
+      } else {
+        highestOrderIndex = orderIndex;
+        highestOrderPrinciple = no;
+      }
+
+      const expectedSection = section_1.principles.includes(no) ? 1 : 2;
+      if (row.section && row.section !== expectedSection) {
+        violations.push(`Principle ${no} belongs in ${expectedSection === 1 ? section_1.name : section_2.name}`);
+      }
+    }
+
+    if (!allowedStatuses.includes(status)) {
+      violations.push(`Status '${status}' must be one of: ${allowedStatuses.join(', ')}`);
+    }
+
+    if (NOT_APPLICABLE_PATTERN.test(page)) {
+      if (status === 'Non-Compliant') {
+        violations.push('Non-Compliant rows need a location: "Page X, Clause Y"');
+      }
+    } else if (!PAGE_REFERENCE_PATTERN.test(page)) {
+      violations.push(`Page '${page}' must include page AND clause reference, e.g. "Page 5, Clause 8.1" (learning PAGE-001)`);
+    }
+
+    if (!row.clause.trim()) {
+      violations.push('Clause must contain the contract text or the relevant finding');
+    }
+
+    if (departure) {
+      if (!actionVerbs.some(verb => departure.startsWith(verb))) {
+        violations.push(`Departure must start with an action verb: ${actionVerbs.join(' ')}`);
+      }
+      if (status === 'Compliant') {
+        violations.push('Departure must be blank when Status is Compliant');
+      }
+    } else if (status === 'Non-Compliant') {
+      violations.push('Non-Compliant rows need a Departure');
+    }
+
+    if (row.comments.trim()) {
+      violations.push('Comments column must be empty in generated output');
+    }
+
+    if (violations.length > 0) {
+      rowViolations.push({
+        row: index + 1,
+        ...(row.line !== undefined ? { line: row.line } : {}),
+        no: row.no,
+        term: row.term,
+        violations,
+      });
+    }
+  });
+
+  for (const [no, rowNumbers] of occurrences) {
+    if (rowNumbers.length > 1) {
+      scheduleViolations.push(`Principle ${no} appears ${rowNumbers.length} times (rows ${rowNumbers.join(', ')})`);
+    }
+  }
+
+  const missing = expectedOrder.filter(id => !occurrences.has(id));
+  if (missing.length > 0) {
+    scheduleViolations.push(`Missing principles: ${missing.join(', ')} - all 28 must be present exactly once`);
+  }
+
+  const violationCount = scheduleViolations.length
+    + rowViolations.reduce((sum, r) => sum + r.violations.length, 0);
+
+  return {
+    valid: violationCount === 0,
+    total_rows: rows.length,
+    rows_with_violations: rowViolations.length,
+    violation_count: violationCount,
+    missing_principles: missing,
+    schedule_violations: scheduleViolations,
+    row_violations: rowViolations,
+  };
+}
+
+/**
+ * Validate a finished departure schedule (JSON rows or fallback CSV) against format.json
+ */
+export function validateDepartureSchedule(input: ValidateDepartureScheduleInput): string {
+  const { format } = getKnowledgeBase();
+  const { rows, csv, title } = input;
+
+  let report: ScheduleValidationReport;
+  let source: 'rows' | 'csv';
+
+  if (csv && csv.trim()) {
+    const parsed = parseScheduleCsv(csv);
+    report = validateScheduleRows(parsed.rows, parsed.title);
+    source = 'csv';
+  } else if (rows && rows.length > 0) {
+    report = validateScheduleRows(rows, title);
+    source = 'rows';
+  } else {
+    throw new Error('Provide either rows or csv');
+  }
+
+  const response = {
+    source,
+    ...report,
+    quality_checklist: format.quality_checklist,
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// A finding left out of the workbook, by its position in the input
+interface RejectedFinding {
+  finding: number;
+  no: number | string;
+  reason: string;
+}
+
+export interface DepartureScheduleWorkbook {
+  filename: string;
+  title: string;
+  buffer: Buffer;
+  validation: ScheduleValidationReport;
+  rejected_findings: RejectedFinding[];
+}
+
+// format.json colours are '#RRGGBB'; exceljs wants 'AARRGGBB'
+function argb(hex: string): string {
+  return `FF${hex.replace('#', '').toUpperCase()}`;
+}
+
+function scheduleTitle(input: GenerateDepartureScheduleXlsxInput): string {
+  if (input.title && input.title.trim()) {
+    return input.title.trim();
+  }
+  const value = input.contract_value === undefined
+    ? ''
+    : String(input.contract_value).replace(/[$,\s]/g, '');
+  const clean = (part: string | undefined) => (part ?? '').trim().replace(/\s+/g, '_');
+  return `${clean(input.customer_name) || 'Customer'}_${clean(input.project_name) || 'Project'}_$${value || '0'}`;
+}
+
+/**
+ * Build the departure schedule workbook exactly as format.json specifies:
+ * merged metadata header, two sections, column widths, conditional fills on
+ * Status, wrapped text and thin borders.
+ */
+export async function generateDepartureScheduleXlsx(
+  input: GenerateDepartureScheduleXlsxInput
+): Promise<DepartureScheduleWorkbook> {
+  const { principles: principlesData, format } = getKnowledgeBase();
+  const { excel_structure, excel_formatting, column_specifications } = format;
+  const { section_1, section_2 } = excel_structure.section_structure;
+
+  const title = scheduleTitle(input);
+
+  // Normalise findings by principle number and fill official names. Only the
+  // first finding for a principle goes in the workbook; the rest are reported.
+  const findings = new Map<number, DepartureRow>();
+  const duplicates = new Map<number, DepartureRow[]>();
+  const invalid: DepartureRow[] = [];
+  const rejected: RejectedFinding[] = [];
+  input.findings.forEach((finding, index) => {
+    const no = typeof finding.no === 'number' ? finding.no : parseInt(String(finding.no), 10);
+    const principle = principlesData.principles.find(p => p.id === no);
+    if (!principle) {
+      invalid.push(finding);
+      rejected.push({ finding: index + 1, no: finding.no, reason: `'${finding.no}' is not a principle number (1-28)` });
+    } else if (findings.has(no)) {
+      duplicates.set(no, [...(duplicates.get(no) ?? []), { ...finding, no, term: finding.term.trim() || principle.name }]);
+      rejected.push({ finding: index + 1, no, reason: `Duplicate finding for principle ${no} - only the first is in the workbook` });
+    } else {
+      findings.set(no, { ...finding, no, term: finding.term.trim() || principle.name });
+    }
+  });
+
+  // Validate every finding supplied: duplicates sit next to the finding they
+  // repeat (so they are not also reported out of order), invalid numbers last
+  const orderedRows = [...section_1.principles, ...section_2.principles]
+    .filter(id => findings.has(id))
+    .flatMap(id => [findings.get(id)!, ...(duplicates.get(id) ?? [])]);
+  const validation = validateScheduleRows([...orderedRows, ...invalid], title);
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'duracube-contract-mcp';
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet(excel_structure.worksheet_name);
+
+  sheet.columns = COLUMN_LETTERS.map((letter, index) => {
+    const widthKey = Object.keys(excel_formatting.column_widths).find(k => k.startsWith(`${letter}_`));
+    return {
+      key: COLUMN_HEADERS[index].toLowerCase(),
+      width: widthKey ? excel_formatting.column_widths[widthKey] : 20,
+    };
+  });
+
+  const thinBorder: Partial<ExcelJS.Borders> = {
+    top: { style: 'thin' },
+    left: { style: 'thin' },
+    bottom: { style: 'thin' },
+    right: { style: 'thin' },
+  };
+  const solidFill = (hex: string): ExcelJS.Fill => ({ type: 'pattern', pattern: 'solid', fgColor: { argb: argb(hex) } });
+  const wrapColumns = new Set(excel_formatting.data_cells.text_wrap.map(key => key.split('_')[0]));
+
+  // Row 1 - merged metadata header
+  sheet.mergeCells('A1:G1');
+  const titleCell = sheet.getCell('A1');
+  titleCell.value = title;
+  titleCell.font = { bold: true, size: parseInt(excel_formatting.metadata_row.font_size, 10) || 14 };
+  titleCell.fill = solidFill(excel_formatting.metadata_row.background_color);
+  titleCell.alignment = { horizontal: 'left', vertical: 'middle' };
+  titleCell.border = thinBorder;
+
+  for (const section of [section_1, section_2]) {
+    // Section header row
+    sheet.mergeCells(`A${section.header_row}:G${section.header_row}`);
+    const sectionCell = sheet.getCell(`A${section.header_row}`);
+    sectionCell.value = section.name;
+    sectionCell.font = { bold: true, size: 12 };
+    sectionCell.border = thinBorder;
+
+    // Column headers
+    const headerRow = sheet.getRow(section.column_headers_row);
+    COLUMN_HEADERS.forEach((header, index) => {
+      const cell = headerRow.getCell(index + 1);
+      cell.value = header;
+      cell.font = {
+        bold: excel_formatting.header_row.font_weight === 'bold',
+        size: parseInt(excel_formatting.header_row.font_size, 10) || 11,
+        color: { argb: argb(excel_formatting.header_row.font_color) },
+      };
+      cell.fill = solidFill(excel_formatting.header_row.background_color);
+      cell.alignment = { horizontal: 'center', vertical: 'middle' };
+      cell.border = thinBorder;
+    });
+
+    // Data rows - one per principle in section order, blank where no finding was supplied
+    const firstDataRow = section.column_headers_row + 1;
+    section.principles.forEach((id, offset) => {
+      const finding = findings.get(id);
+      const principle = principlesData.principles.find(p => p.id === id);
+      const values = [
+        id,
+        finding?.term ?? principle?.name ?? '',
+        finding?.status.trim() ?? '',
+        finding?.page.trim() ?? '',
+        finding?.clause.trim() ?? '',
+        finding?.departure.trim() ?? '',
+        '',
+      ];
+
+      const row = sheet.getRow(firstDataRow + offset);
+      values.forEach((value, index) => {
+        const letter = COLUMN_LETTERS[index];
+        const spec = Object.values(column_specifications).find(c => c.column === letter);
+        const cell = row.getCell(index + 1);
+        cell.value = value;
+        cell.border = thinBorder;
+        cell.alignment = {
+          horizontal: spec?.alignment === 'center' ? 'center' : 'left',
+          vertical: excel_formatting.data_cells.vertical_alignment === 'top' ? 'top' : 'middle',
+          wrapText: wrapColumns.has(letter),
+        };
+      });
+    });
+
+    // Conditional fills on the Status column
+    const lastDataRow = firstDataRow + section.principles.length - 1;
+    sheet.addConditionalFormatting({
+      ref: `C${firstDataRow}:C${lastDataRow}`,
+      rules: excel_formatting.conditional_formatting.rules.map((rule, index) => ({
+        type: 'cellIs',
+        operator: 'equal',
+        priority: index + 1,
+        formulae: [`"${rule.value}"`],
+        style: {
+          fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: argb(rule.background_color) } },
+          font: { color: { argb: argb(rule.font_color) } },
+        },
+      })),
+    });
+  }
+
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+  const baseName = (input.filename ?? title).replace(/\.xlsx$/i, '').replace(/[^\w$.-]+/g, '_');
+
+  return {
+    filename: `${baseName}.xlsx`,
+    title,
+    buffer,
+    validation,
+    rejected_findings: rejected,
+  };
+}
+
+/**
+ * MCP tool result content for a generated workbook: a text summary with the
+ * validation report, and the workbook itself as an embedded base64 resource
+ */
+export function workbookToolContent(workbook: DepartureScheduleWorkbook) {
+  const summary = {
+    filename: workbook.filename,
+    title: workbook.title,
+    mime_type: XLSX_MIME_TYPE,
+    size_bytes: workbook.buffer.length,
+    validation: workbook.validation,
+    rejected_findings: workbook.rejected_findings,
+  };
+
+  return [
+    {
+      type: 'text' as const,
+      text: JSON.stringify(summary, null, 2),
+    },
+    {
+      type: 'resource' as const,
+      resource: {
+        uri: `duracube://departure-schedules/${encodeURIComponent(workbook.filename)}`,
+        mimeType: XLSX_MIME_TYPE,
+        blob: workbook.buffer.toString('base64'),
+      },
+    },
+  ];
+}
+
+// Export tool definitions for MCP registration
+export const departureScheduleToolDefinitions = {
+  validate_departure_schedule: {
+    name: 'validate_departure_schedule',
+    description: `Validate a finished departure schedule against the format specification before it is sent.
+
+Accepts JSON rows or the fallback 7-column CSV. Checks:
+- All 28 principles present exactly once
+- Non-Negotiable section before Negotiable, principles in the order given by get_output_format
+- Term matches the official principle name
+- Status is Compliant | Non-Compliant | No Term
+- Page uses "Page X, Clause Y" (never a bare page number - learning PAGE-001)
+- Departure starts with Insert: | Replace: | Amend: | Delete: (blank when Compliant, required when Non-Compliant)
+- Comments column is empty
+
+Returns a per-row list of violations. Fix every violation before delivering the schedule.`,
+  },
+  generate_departure_schedule_xlsx: {
+    name: 'generate_departure_schedule_xlsx',
+    description: `Generate the final departure schedule as a real Excel workbook (.xlsx) on the server.
+
+Use this INSTEAD of writing openpyxl/xlsxwriter code - every run produces the same workbook:
+- Merged A1:G1 metadata header (CustomerName_ProjectName_$ContractValue)
+- SECTION 1 - NON-NEGOTIABLE then SECTION 2 - NEGOTIABLE, principles in the specified order
+- Column widths A=5, B=30, C=15, D=20, E=50, F=50, G=20
+- Conditional fills on Status (green=Compliant, red=Non-Compliant, yellow=No Term)
+- Wrapped text on Clause and Departure, thin borders on all cells
+
+INPUT: One finding per principle (no, status, page, clause, departure). Terms are filled from the official
+principle names and rows are placed in the correct section automatically.
+
+OUTPUT: The workbook as an embedded base64 resource, plus the validate_departure_schedule report for the findings.
+Fix any reported violations and regenerate before sending the schedule to the customer.`,
+  },
+};
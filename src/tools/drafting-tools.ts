@@ -0,0 +1,172 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import type { PrinciplesData } from './knowledge-tools.js';
+import { validateScheduleRows } from './departure-schedule-tools.js';
+import type { DepartureRow, DraftDepartureInput } from '../schemas/tool-schemas.js';
+
+type Principle = PrinciplesData['principles'][number];
+type ActionVerb = 'Insert' | 'Replace' | 'Amend' | 'Delete';
+
+interface DepartureAction {
+  verb: ActionVerb;
+  text: string;
+}
+
+const ACTION_PATTERN = /^(Insert|Replace|Amend|Delete):\s*/;
+// "Delete: head contract flow-down provisions OR Amend: to specify only agreed provisions"
+const ALTERNATIVE_SEPARATOR = /\s+OR\s+(?=(?:Insert|Replace|Amend|Delete):)/;
+const CURRENT_TERM = /\[current term\]/gi;
+const NO_FALLBACK = /^none\b/i;
+
+/**
+ * Split a departure_template into its actions; most have one, a few offer an alternative
+ */
+function parseTemplate(principle: Principle): DepartureAction[] {
+  return principle.departure_template.split(ALTERNATIVE_SEPARATOR).map(part => {
+    const match = ACTION_PATTERN.exec(part.trim());
+    if (!match) {
+      throw new Error(`Principle ${principle.id} departure_template does not start with an action verb: ${principle.departure_template}`);
+    }
+    return { verb: match[1] as ActionVerb, text: part.trim().slice(match[0].length) };
+  });
+}
+
+// Contract wording pasted with its own quotation marks
+function unquote(text: string): string {
+  return text.trim().replace(/^["'“‘]+|["'”’]+$/g, '').trim();
+}
+
+function quote(text: string): string {
+  return /^'.*'$/s.test(text) ? text : `'${unquote(text)}'`;
+}
+
+/**
+ * Turn a template action into the Departure cell for this finding. With no
+ * term in the contract there is nothing to replace or amend, so the new
+ * language is inserted instead.
+ */
+function draftAction(action: DepartureAction, status: DraftDepartureInput['status'], wording: string | null): DepartureAction | null {
+  const replacement = action.verb === 'Replace' ? /\bwith\s+(.+)$/s.exec(action.text)?.[1] : undefined;
+
+  if (status === 'No Term') {
+    if (action.verb === 'Delete') return null;
+    return { verb: 'Insert', text: replacement ?? action.text };
+  }
+
+  if (action.verb === 'Replace' && wording !== null) {
+    return { verb: 'Replace', text: action.text.replace(CURRENT_TERM, wording) };
+  }
+  return action;
+}
+
+/**
+ * The fallback position as a departure, using the verb the primary departure
+ * used (a fallback to a deletion amends the clause instead)
+ */
+function draftFallback(principle: Principle, primary: DepartureAction, wording: string | null): DepartureAction | null {
+  const position = principle.negotiation_positions.fallback.trim();
+  if (!position || NO_FALLBACK.test(position)) return null;
+
+  switch (primary.verb) {
+    case 'Replace':
+      return wording !== null
+        ? { verb: 'Replace', text: `'${wording}' with ${quote(position)}` }
+        : { verb: 'Amend', text: quote(position) };
+    case 'Delete':
+      return { verb: 'Amend', text: quote(position) };
+    default:
+      return { verb: primary.verb, text: quote(position) };
+  }
+}
+
+const cell = (action: DepartureAction | null) => (action ? `${action.verb}: ${action.text}` : '');
+
+/**
+ * Fill a principle's departure_template for one finding and return the
+ * finished Departure cell, a fallback variant and the schedule row
+ */
+export function draftDeparture(input: DraftDepartureInput): string {
+  const { principles: principlesData } = getKnowledgeBase();
+  const { principle_id, status } = input;
+
+  const principle = principlesData.principles.find(p => p.id === principle_id);
+  if (!principle) {
+    throw new Error(`Unknown principle: ${principle_id}`);
+  }
+
+  const wording = input.current_wording ? unquote(input.current_wording) : null;
+  if (status !== 'No Term') {
+    if (!wording) {
+      throw new Error(`A ${status} finding needs current_wording: the contract text for principle ${principle_id}`);
+    }
+    if (!input.location) {
+      throw new Error(`A ${status} finding needs location, e.g. "Page 5, Clause 8.1" (learning PAGE-001)`);
+    }
+  }
+
+  const actions = parseTemplate(principle);
+  let departure: DepartureAction | null = null;
+  let fallback: DepartureAction | null = null;
+  const alternatives: string[] = [];
+
+  if (status !== 'Compliant') {
+    const drafted = actions.map(action => draftAction(action, status, wording)).filter((a): a is DepartureAction => a !== null);
+    if (drafted.length === 0) {
+      throw new Error(`Principle ${principle_id}'s departure deletes contract wording ("${principle.departure_template}"), but with no term there is nothing to delete. An absent burden term is usually Compliant - check with run_decision_tree no_term_assessment`);
+    }
+    departure = drafted[0];
+    alternatives.push(...drafted.slice(1).map(cell));
+    fallback = draftFallback(principle, departure, status === 'No Term' ? null : wording);
+  }
+
+  const row: DepartureRow = {
+    no: principle.id,
+    term: principle.name,
+    status,
+    page: input.location || 'N/A',
+    clause: wording ? `"${wording}"` : `No ${principle.name.toLowerCase().replace(/\s+provisions?$/, '')} provision found`,
+    departure: cell(departure),
+    comments: '',
+  };
+
+  // The same rules validate_departure_schedule applies to a finished schedule
+  const violations = validateScheduleRows([row], undefined).row_violations[0]?.violations ?? [];
+
+  const response = {
+    principle_id: principle.id,
+    name: principle.name,
+    category: principle.category,
+    status,
+    departure: row.departure,
+    fallback_departure: fallback ? cell(fallback) : null,
+    alternative_departures: alternatives,
+    row,
+    format_check: {
+      valid: violations.length === 0,
+      violations,
+    },
+    source: {
+      departure_template: principle.departure_template,
+      preferred_position: principle.negotiation_positions.preferred,
+      fallback_position: principle.negotiation_positions.fallback,
+      deal_breaker: principle.negotiation_positions.deal_breaker,
+    },
+    ...(status === 'Compliant' ? { note: 'Departure is left blank for Compliant findings' } : {}),
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const draftingToolDefinitions = {
+  draft_departure: {
+    name: 'draft_departure',
+    description: `Draft the Departure cell for one finding from the principle's departure_template, so the same change is worded the same way in every review.
+
+Give the principle, its assessed status, the contract's current wording and its location ("Page 5, Clause 8.1"). Returns:
+- departure: the template with [current term] filled and an action verb (Insert:/Replace:/Amend:/Delete:) that fits the status - a No Term finding inserts the language instead of replacing it; a Compliant finding has no departure
+- fallback_departure: the negotiation_positions.fallback as a departure, or null when the principle has no fallback
+- row: the full departure schedule row, checked against the same format rules as validate_departure_schedule
+
+For Replace templates pass just the words being replaced as current_wording (e.g. "unlimited").`,
+  },
+};
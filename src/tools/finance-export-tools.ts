@@ -0,0 +1,328 @@
+import { checkFinanceExtraction, parseExtraction } from './finance-tools.js';
+import type { FinanceValidationReport, JsonObject } from './finance-tools.js';
+import { toCsv } from '../utils/csv.js';
+import { getExportMapping, saveExportMapping } from '../utils/export-mappings-store.js';
+import type { StoredExportMapping } from '../utils/export-mappings-store.js';
+import { ExportMappingSchema, FinanceExportFileSchema } from '../schemas/tool-schemas.js';
+import type { ExportColumn, ExportFinanceExtractionInput, FinanceExportFile } from '../schemas/tool-schemas.js';
+
+type ExportRow = Record<string, string>;
+
+export const CSV_MIME_TYPE = 'text/csv; charset=utf-8';
+export const DEFAULT_EXPORT_MAPPING = 'default';
+
+/**
+ * Fields each import file can be built from. Mappings pick, order and rename them.
+ */
+export const EXPORT_FIELDS: Record<FinanceExportFile, string[]> = {
+  contract_master: [
+    'contract_reference', 'document_name', 'document_type', 'extraction_date',
+    'customer_name', 'customer_role', 'customer_abn',
+    'contract_value', 'contract_value_amount', 'gst_treatment', 'contract_value_source',
+    'payment_timing', 'retention_percentage', 'security_type',
+    'claim_method', 'claim_email', 'claim_portal_url',
+    'project_manager_name', 'project_manager_company', 'project_manager_email', 'project_manager_phone',
+  ],
+  parties: ['contract_reference', 'name', 'role', 'abn', 'acn', 'source'],
+  retention_register: [
+    'contract_reference', 'register_type', 'percentage', 'percentage_text', 'cap', 'cap_amount',
+    'security_type', 'security_amount', 'release_conditions', 'release_timing', 'source',
+  ],
+  payment_terms: [
+    'contract_reference', 'frequency', 'timing', 'payment_days', 'payment_day_basis', 'claim_due_date', 'reference_period',
+    'required_documents', 'conditions_precedent', 'tax_invoice_requirements', 'subcontractor_statement',
+    'claim_method', 'claim_email', 'claim_portal_url', 'source',
+  ],
+};
+
+// "customer_abn" -> "Customer ABN"
+const ACRONYMS = new Set(['abn', 'acn', 'gst', 'url']);
+const titleCase = (field: string) =>
+  field.split('_').map(word => (ACRONYMS.has(word) ? word.toUpperCase() : `${word[0].toUpperCase()}${word.slice(1)}`)).join(' ');
+
+// The built-in mapping: every field, in catalogue order, with a readable header
+const BUILT_IN_COLUMNS = Object.fromEntries(
+  Object.entries(EXPORT_FIELDS).map(([file, fields]) => [file, fields.map(field => ({ header: titleCase(field), field }))])
+) as Record<FinanceExportFile, ExportColumn[]>;
+
+// DuraCube's own roles; the customer is the other side of the contract
+const DURACUBE_ROLES = /^(subcontractor|supplier)$/i;
+const NO_SECURITY = /^none/i;
+const MAPPING_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A cell value: NOT_FOUND and conflicting values export as blank, lists as "a; b"
+ */
+function text(value: unknown): string {
+  if (value === null || value === undefined || isObject(value)) return '';
+  if (Array.isArray(value)) return value.map(text).filter(Boolean).join('; ');
+  return String(value).trim();
+}
+
+// "$1,500,000" -> "1500000" for numeric ERP columns; formulas stay blank
+function amountNumber(value: unknown): string {
+  const match = /^\$\s?(\d[\d,]*(?:\.\d{1,2})?)$/.exec(text(value));
+  return match ? match[1].replace(/,/g, '') : '';
+}
+
+function percentNumber(value: unknown): string {
+  return /^(\d+(?:\.\d+)?)\s*%/.exec(text(value))?.[1] ?? '';
+}
+
+// "14 days End of Month", "14 days after the end of the month", "14 EOM", "EOM + 14 days"
+const END_OF_MONTH_AFTER = /^[\s,]*(?:(?:after|from|following)\s+(?:the\s+)?)?(?:EOM|end\s+of\s+(?:the\s+)?month)\b/i;
+const END_OF_MONTH_BEFORE = /\b(?:EOM|end\s+of\s+(?:the\s+)?month)\s*(?:\+|plus)\s*$/i;
+
+// "Within 30 business days of a valid claim" -> 30, business days; "14 days End of Month" -> 14, days EOM
+export function paymentDays(timing: string): { payment_days: string; payment_day_basis: string } {
+  const match = /(\d+)\s*(?:((?:business|calendar|working)\s+)?days?\b|(?=EOM\b|end\s+of\s+(?:the\s+)?month\b))/i.exec(timing);
+  if (!match) return { payment_days: '', payment_day_basis: '' };
+  const basis = match[2] ? `${match[2].trim().toLowerCase()} days` : 'days';
+  // Counted from the end of the month is a different ERP term from counted from the claim
+  const endOfMonth = END_OF_MONTH_AFTER.test(timing.slice(match.index + match[0].length))
+    || END_OF_MONTH_BEFORE.test(timing.slice(0, match.index));
+  return { payment_days: match[1], payment_day_basis: endOfMonth ? `${basis} EOM` : basis };
+}
+
+const section = (extraction: JsonObject, key: string): JsonObject => (isObject(extraction[key]) ? extraction[key] as JsonObject : {});
+
+const list = (extraction: JsonObject, key: string): JsonObject[] =>
+  Array.isArray(extraction[key]) ? (extraction[key] as unknown[]).filter(isObject) : [];
+
+/**
+ * Rows for each file, from the extraction. ABNs and ACNs that failed the
+ * checksum are left blank rather than written into the ERP.
+ */
+export function buildExportRows(extraction: JsonObject, reference: string, report: FinanceValidationReport): Record<FinanceExportFile, ExportRow[]> {
+  const metadata = section(extraction, 'extraction_metadata');
+  const value = section(extraction, 'contract_value');
+  const payment = section(extraction, 'payment_terms');
+  const conditions = section(extraction, 'payment_claim_conditions');
+  const retention = section(extraction, 'retention_and_securities');
+  const documentation = section(extraction, 'additional_claim_documentation');
+  const submission = section(extraction, 'claim_submission_method');
+  const manager = section(extraction, 'project_manager');
+  const parties = list(extraction, 'contract_parties');
+
+  const checked = (party: JsonObject, key: 'abn' | 'acn') => {
+    const check = report.business_numbers.find(n => n.party === text(party.name))?.[key];
+    return check?.valid ? check.digits : '';
+  };
+  const customer: JsonObject = parties.find(p => !DURACUBE_ROLES.test(text(p.role))) ?? {};
+
+  const claimFields = {
+    claim_method: text(submission.method),
+    claim_email: text(submission.email_address) || text(conditions.submission_email),
+    claim_portal_url: text(submission.portal_url),
+  };
+
+  const registerRows: ExportRow[] = [];
+  if (text(retention.retention_percentage) || text(retention.retention_cap)) {
+    registerRows.push({
+      register_type: 'Retention',
+      percentage: percentNumber(retention.retention_percentage),
+      percentage_text: text(retention.retention_percentage),
+      cap: text(retention.retention_cap),
+      cap_amount: amountNumber(retention.retention_cap),
+    });
+  }
+  if (text(retention.security_type) && !NO_SECURITY.test(text(retention.security_type))) {
+    registerRows.push({
+      register_type: 'Security',
+      security_type: text(retention.security_type),
+      security_amount: text(retention.security_amount),
+    });
+  }
+
+  const withReference = (rows: ExportRow[]) => rows.map(row => ({ contract_reference: reference, ...row }));
+
+  return {
+    contract_master: withReference([{
+      document_name: text(metadata.document_name),
+      document_type: text(metadata.document_type),
+      extraction_date: text(metadata.extraction_date),
+      customer_name: text(customer.name),
+      customer_role: text(customer.role),
+      customer_abn: checked(customer, 'abn'),
+      contract_value: text(value.amount),
+      contract_value_amount: amountNumber(value.amount),
+      gst_treatment: text(value.gst_treatment),
+      contract_value_source: text(value.source),
+      payment_timing: text(payment.timing),
+      retention_percentage: percentNumber(retention.retention_percentage),
+      security_type: text(retention.security_type),
+      ...claimFields,
+      project_manager_name: text(manager.name),
+      project_manager_company: text(manager.company),
+      project_manager_email: text(manager.email),
+      project_manager_phone: text(manager.phone),
+    }]),
+    parties: withReference(parties.map(party => ({
+      name: text(party.name),
+      role: text(party.role),
+      abn: checked(party, 'abn'),
+      acn: checked(party, 'acn'),
+      source: text(party.source),
+    }))),
+    retention_register: withReference(registerRows.map(row => ({
+      ...row,
+      release_conditions: text(retention.release_conditions),
+      release_timing: text(retention.release_timing),
+      source: text(retention.source),
+    }))),
+    payment_terms: withReference([{
+      frequency: text(payment.frequency),
+      timing: text(payment.timing),
+      ...paymentDays(text(payment.timing)),
+      claim_due_date: text(payment.claim_due_date),
+      reference_period: text(payment.reference_period),
+      required_documents: text(conditions.required_documents),
+      conditions_precedent: text(conditions.conditions_precedent),
+      tax_invoice_requirements: text(conditions.tax_invoice_requirements),
+      subcontractor_statement: text(documentation.subcontractor_statement),
+      ...claimFields,
+      source: text(payment.source),
+    }]),
+  };
+}
+
+/**
+ * The columns to write: a stored mapping, falling back to the built-in
+ * columns for any file it leaves out
+ */
+export function resolveExportMapping(name: string): { columns: Record<FinanceExportFile, ExportColumn[]>; stored: StoredExportMapping | undefined } {
+  const stored = getExportMapping(name);
+  if (!stored && name !== DEFAULT_EXPORT_MAPPING) {
+    throw new Error(`Unknown export mapping: ${name}. Save it with PUT /export-mappings/${name} first`);
+  }
+  return { columns: { ...BUILT_IN_COLUMNS, ...stored?.files }, stored };
+}
+
+/**
+ * Validate and save a named column mapping. Every field must be one the file
+ * can be built from.
+ */
+export function saveFinanceExportMapping(name: string, body: unknown, updatedBy: string | null): StoredExportMapping {
+  if (!MAPPING_NAME.test(name)) {
+    throw new Error(`Mapping name '${name}' must be letters, digits, - or _ (up to 64 characters)`);
+  }
+  const mapping = ExportMappingSchema.parse(body);
+
+  const unknown = Object.entries(mapping.files).flatMap(([file, columns]) =>
+    (columns ?? [])
+      .filter(column => column.field !== undefined && !EXPORT_FIELDS[file as FinanceExportFile].includes(column.field))
+      .map(column => `${file}.${column.field}`)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown export fields: ${unknown.join(', ')}. Available fields are listed by GET /export-mappings`);
+  }
+
+  return saveExportMapping(name, mapping, updatedBy);
+}
+
+export function builtInExportMapping(): { name: string; files: Record<FinanceExportFile, ExportColumn[]> } {
+  return { name: DEFAULT_EXPORT_MAPPING, files: BUILT_IN_COLUMNS };
+}
+
+export interface FinanceExportFileOutput {
+  file: FinanceExportFile;
+  filename: string;
+  rows: number;
+  columns: string[];
+  csv: string;
+}
+
+export interface FinanceExport {
+  contract_reference: string;
+  mapping: string;
+  files: FinanceExportFileOutput[];
+  validation: FinanceValidationReport;
+  warnings: string[];
+}
+
+/**
+ * Turn a finance extraction into the four ERP import files using a stored
+ * column mapping. Shared by the tool and the download endpoint.
+ */
+export function buildFinanceExport(input: ExportFinanceExtractionInput): FinanceExport {
+  const extraction = parseExtraction(input.extraction);
+  const validation = checkFinanceExtraction(extraction);
+  const { columns } = resolveExportMapping(input.mapping);
+
+  const documentName = text(section(extraction, 'extraction_metadata').document_name).replace(/\.pdf$/i, '');
+  const reference = input.contract_reference || documentName;
+  if (!reference) {
+    throw new Error('Provide contract_reference: the extraction has no extraction_metadata.document_name to use instead');
+  }
+
+  const warnings: string[] = [];
+  if (!validation.valid) {
+    warnings.push(`The extraction has ${validation.violation_count} validation violation(s) - run validate_finance_extraction and fix them before importing`);
+  }
+  for (const category of validation.categories.filter(c => c.status === 'CONFLICT_DETECTED')) {
+    warnings.push(`${category.key} has conflicting values; the conflicting fields are left blank until resolved`);
+  }
+  for (const numbers of validation.business_numbers) {
+    for (const check of [numbers.abn, numbers.acn]) {
+      if (check && !check.valid) warnings.push(`${numbers.party}: ${check.value} failed its checksum and is left blank`);
+    }
+  }
+
+  const rows = buildExportRows(extraction, reference, validation);
+  const safeReference = reference.replace(/[^\w.-]+/g, '_');
+  const selected = input.files && input.files.length > 0 ? input.files : FinanceExportFileSchema.options;
+
+  const files = selected.map(file => {
+    const fileColumns = columns[file];
+    const records = rows[file].map(row => fileColumns.map(column => (column.value !== undefined ? column.value : row[column.field!] ?? '')));
+    return {
+      file,
+      filename: `${safeReference}_${file}.csv`,
+      rows: records.length,
+      columns: fileColumns.map(column => column.header),
+      csv: toCsv([fileColumns.map(column => column.header), ...records]),
+    };
+  });
+
+  return { contract_reference: reference, mapping: input.mapping, files, validation, warnings };
+}
+
+/**
+ * Convert a finance extraction into flat ERP import files
+ */
+export function exportFinanceExtraction(input: ExportFinanceExtractionInput): string {
+  const result = buildFinanceExport(input);
+  const { validation, ...exported } = result;
+
+  const response = {
+    ...exported,
+    validation: {
+      valid: validation.valid,
+      violation_count: validation.violation_count,
+      categories_not_found: validation.categories_not_found,
+      categories_missing: validation.categories_missing,
+    },
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const financeExportToolDefinitions = {
+  export_finance_extraction: {
+    name: 'export_finance_extraction',
+    description: `Convert a completed finance extraction into flat CSV import files for the accounting systems, so nobody retypes the JSON.
+
+This tool provides:
+- contract_master: one row per contract - customer, ABN, contract value, GST treatment, payment timing, claim method and project manager
+- parties: one row per party with checksum-verified ABN and ACN
+- retention_register: a Retention row and a Security row with percentages, caps, amounts and release terms
+- payment_terms: the payment and claim record - timing, payment days, claim date, required documents
+- Validation warnings from validate_finance_extraction; ABNs or ACNs that fail their checksum and conflicting values are left blank
+
+Columns come from a named mapping stored on the server (default: every field with readable headers). Mappings are managed through the /export-mappings HTTP endpoints.`,
+  },
+};
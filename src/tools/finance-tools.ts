@@ -0,0 +1,644 @@
+import { FINANCE_JSON_TEMPLATE, getKnowledgeBase } from './knowledge-tools.js';
+import { PAGE_REFERENCE_PATTERN } from './departure-schedule-tools.js';
+import { buildClauseMap, clauseAt, formatReference, resolveContractPages, sentenceSpans, snippetAround, termPattern } from '../utils/contract-text.js';
+import type { ContractPage } from '../utils/contract-text.js';
+import { checkAbn, checkAcn } from '../utils/business-numbers.js';
+import type { BusinessNumberCheck } from '../utils/business-numbers.js';
+import type { ExtractDollarValuesInput, ValidateFinanceExtractionInput } from '../schemas/tool-schemas.js';
+
+export type JsonObject = Record<string, unknown>;
+type CategoryStatus = 'EXTRACTED' | 'NOT_FOUND' | 'CONFLICT_DETECTED' | 'MISSING';
+
+interface CategoryReport {
+  key: string;
+  category_id: number;
+  name: string;
+  status: CategoryStatus;
+  violations: string[];
+}
+
+interface PartyNumbers {
+  party: string;
+  abn?: BusinessNumberCheck;
+  acn?: BusinessNumberCheck;
+}
+
+export interface FinanceValidationReport {
+  valid: boolean;
+  violation_count: number;
+  categories_found: number;
+  categories_not_found: string[];
+  categories_missing: string[];
+  categories: CategoryReport[];
+  business_numbers: PartyNumbers[];
+  document_violations: string[];
+  warnings: string[];
+}
+
+const TEMPLATE = JSON.parse(FINANCE_JSON_TEMPLATE) as JsonObject;
+const DOCUMENT_KEYS = ['extraction_metadata', 'edge_cases', 'extraction_notes'];
+// The 9 category keys, in the order of their category ids
+export const FINANCE_CATEGORY_KEYS = Object.keys(TEMPLATE).filter(key => !DOCUMENT_KEYS.includes(key));
+
+// "Schedule A, Item 3" - schedules are cited without a page in the extraction rules
+const SCHEDULE_SOURCE_PATTERN = /^(?:Schedule|Annexure|Appendix|Attachment)\s+\S+,\s*Item\s+\S+/i;
+// Dollar mentions only need the page
+const PAGE_ONLY_PATTERN = /^Pages?\s+\d+(?:\s*[-–]\s*\d+)?$/i;
+const AMOUNT_FORMAT = /^\$\d{1,3}(?:,\d{3})*(?:\.\d{2})?$/;
+// A value that is just an amount rather than a formula ("10% of Contract Value")
+const BARE_AMOUNT = /^\$?\s*\d[\d,]*(?:\.\d+)?\s*(?:k|m|million)?$/i;
+const STRICT_AMOUNT_FIELDS = new Set(['amount']);
+const AMOUNT_OR_FORMULA_FIELDS = new Set(['retention_cap', 'security_amount']);
+// Template text copied through unfilled: "[Full name]", "$X,XXX", "Page X, Clause X.X"
+const TEMPLATE_PLACEHOLDER = /^\[.*\]$|X,XXX|^Page X\b/;
+const DATE_FORMAT = /^\d{2}\/\d{2}\/\d{4}$/;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+function isValidSource(source: unknown, pageOnly: boolean): boolean {
+  if (typeof source !== 'string') return false;
+  const trimmed = source.trim();
+  return PAGE_REFERENCE_PATTERN.test(trimmed) || SCHEDULE_SOURCE_PATTERN.test(trimmed) || (pageOnly && PAGE_ONLY_PATTERN.test(trimmed));
+}
+
+/**
+ * A NOT_FOUND entry must say what was searched (edge_case_handling.not_found)
+ */
+function checkNotFound(node: JsonObject, path: string, violations: string[]): void {
+  const searched = node.searched;
+  if (!Array.isArray(searched) || searched.length === 0 || !searched.every(term => typeof term === 'string' && term.trim())) {
+    violations.push(`${path} is NOT_FOUND without a search summary: list the search terms used in "searched" (and the "sections_checked")`);
+  }
+  if (!isEmpty(node.value)) {
+    violations.push(`${path} is NOT_FOUND but has a value - use null`);
+  }
+}
+
+function checkAmount(field: string, value: unknown, path: string, violations: string[]): void {
+  if (typeof value !== 'string') {
+    if (typeof value === 'number') violations.push(`${path} must be a string in $X,XXX format, got ${value}`);
+    return;
+  }
+  const trimmed = value.trim();
+  const mustBeFormatted = STRICT_AMOUNT_FIELDS.has(field) || (AMOUNT_OR_FORMULA_FIELDS.has(field) && BARE_AMOUNT.test(trimmed));
+  if (mustBeFormatted && !AMOUNT_FORMAT.test(trimmed)) {
+    violations.push(`${path} '${value}' must be in $X,XXX format, e.g. $1,500,000`);
+  }
+}
+
+/**
+ * A CONFLICT_DETECTED value must list every instance with its own source
+ */
+function checkConflict(node: JsonObject, field: string, path: string, violations: string[]): void {
+  const instances = node.instances;
+  if (!Array.isArray(instances) || instances.length < 2) {
+    violations.push(`${path} is CONFLICT_DETECTED but does not list each conflicting value in "instances"`);
+    return;
+  }
+  instances.forEach((instance, i) => {
+    if (!isObject(instance)) return;
+    if (!isValidSource(instance.source, false)) {
+      violations.push(`${path}.instances[${i}] needs a source such as "Page 5, Clause 8.1"`);
+    }
+    if (field in instance) checkAmount(field, instance[field], `${path}.instances[${i}].${field}`, violations);
+    if ('amount' in instance) checkAmount('amount', instance.amount, `${path}.instances[${i}].amount`, violations);
+  });
+}
+
+/**
+ * Check one category object (or one list entry) against its template fields.
+ * Returns true when any field is a conflict.
+ */
+function checkEntry(entry: JsonObject, template: JsonObject, path: string, pageOnly: boolean, violations: string[]): boolean {
+  let conflict = false;
+  const fields = Object.keys(template).filter(field => field !== 'source');
+
+  for (const field of fields) {
+    const fieldPath = `${path}.${field}`;
+    if (!(field in entry)) {
+      violations.push(`${fieldPath} is missing - use null when the contract does not state it`);
+      continue;
+    }
+
+    const value = entry[field];
+    if (isObject(value) && value.status === 'NOT_FOUND') {
+      checkNotFound(value, fieldPath, violations);
+    } else if (isObject(value) && value.status === 'CONFLICT_DETECTED') {
+      conflict = true;
+      checkConflict(value, field, fieldPath, violations);
+    } else {
+      checkAmount(field, value, fieldPath, violations);
+    }
+
+    const strings = Array.isArray(value) ? value : [value];
+    if (strings.some(item => typeof item === 'string' && TEMPLATE_PLACEHOLDER.test(item.trim()))) {
+      violations.push(`${fieldPath} still holds template text: ${JSON.stringify(value)}`);
+    }
+  }
+
+  // Anything extracted needs a page and clause; conflicts carry a source per instance
+  const extracted = fields.some(field => !isEmpty(entry[field]) && !(isObject(entry[field]) && entry[field].status === 'NOT_FOUND'));
+  if (extracted && !conflict && !isValidSource(entry.source, pageOnly)) {
+    violations.push(entry.source === undefined || entry.source === null
+      ? `${path}.source is missing - every value needs "${pageOnly ? 'Page X' : 'Page X, Clause X.X'}"`
+      : `${path}.source '${entry.source}' must be "${pageOnly ? 'Page X' : 'Page X, Clause X.X'}"`);
+  }
+
+  return conflict;
+}
+
+/**
+ * ABN and ACN checksums for one party, with violations for any that fail
+ */
+function checkPartyNumbers(party: JsonObject, path: string, violations: string[], warnings: string[]): PartyNumbers | null {
+  const name = typeof party.name === 'string' ? party.name : path;
+  const numbers: PartyNumbers = { party: name };
+
+  for (const [key, check] of [['abn', checkAbn], ['acn', checkAcn]] as const) {
+    const value = party[key];
+    if (isEmpty(value) || isObject(value)) continue;
+    const result = check(String(value));
+    numbers[key] = result;
+    if (!result.valid) {
+      violations.push(`${path}.${key} '${value}' for ${name}: ${result.reason}`);
+    }
+  }
+
+  // A company's ABN is its ACN with two check digits in front
+  if (numbers.abn?.valid && numbers.acn?.valid && numbers.abn.digits.slice(2) !== numbers.acn.digits) {
+    warnings.push(`${name}: ABN ${numbers.abn.value} does not contain ACN ${numbers.acn.value} - confirm both on the ABN Lookup before setting up the customer`);
+  }
+
+  return numbers.abn || numbers.acn ? numbers : null;
+}
+
+function checkCategory(extraction: JsonObject, key: string, index: number, businessNumbers: PartyNumbers[], warnings: string[]): CategoryReport {
+  const { financeExtraction } = getKnowledgeBase();
+  const categoryId = index + 1;
+  const name = financeExtraction.extraction_categories.find(c => c.id === categoryId)?.name ?? key;
+  const report: CategoryReport = { key, category_id: categoryId, name, status: 'EXTRACTED', violations: [] };
+  const template = TEMPLATE[key];
+  const value = extraction[key];
+
+  if (!(key in extraction)) {
+    report.status = 'MISSING';
+    report.violations.push(`${key} is missing - every category needs data or a NOT_FOUND entry`);
+    return report;
+  }
+
+  if (isObject(value) && value.status === 'NOT_FOUND') {
+    report.status = 'NOT_FOUND';
+    checkNotFound(value, key, report.violations);
+    return report;
+  }
+
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value)) {
+      report.violations.push(`${key} must be a list of entries or a NOT_FOUND entry`);
+      return report;
+    }
+    if (value.length === 0) {
+      report.violations.push(`${key} is empty - record NOT_FOUND with the search terms used instead`);
+    }
+    value.forEach((entry, i) => {
+      const path = `${key}[${i}]`;
+      if (!isObject(entry)) {
+        report.violations.push(`${path} must be an object`);
+        return;
+      }
+      if (checkEntry(entry, template[0] as JsonObject, path, key === 'dollar_values', report.violations)) {
+        report.status = 'CONFLICT_DETECTED';
+      }
+      if (key === 'contract_parties') {
+        const numbers = checkPartyNumbers(entry, path, report.violations, warnings);
+        if (numbers) businessNumbers.push(numbers);
+      }
+    });
+    return report;
+  }
+
+  if (!isObject(value)) {
+    report.violations.push(`${key} must be an object with the template fields or a NOT_FOUND entry`);
+    return report;
+  }
+  if (checkEntry(value, template as JsonObject, key, false, report.violations)) {
+    report.status = 'CONFLICT_DETECTED';
+  }
+  return report;
+}
+
+/**
+ * The metadata, edge case lists and notes that sit around the 9 categories
+ */
+function checkDocument(extraction: JsonObject): string[] {
+  const violations: string[] = [];
+
+  const metadata = extraction.extraction_metadata;
+  if (!isObject(metadata)) {
+    violations.push('extraction_metadata is missing');
+  } else {
+    for (const field of Object.keys(TEMPLATE.extraction_metadata as JsonObject)) {
+      if (isEmpty(metadata[field])) violations.push(`extraction_metadata.${field} is missing`);
+    }
+    if (typeof metadata.extraction_date === 'string' && !DATE_FORMAT.test(metadata.extraction_date.trim())) {
+      violations.push(`extraction_metadata.extraction_date '${metadata.extraction_date}' must be DD/MM/YYYY`);
+    }
+    if (!isEmpty(metadata.total_pages) && !Number.isInteger(Number(metadata.total_pages))) {
+      violations.push(`extraction_metadata.total_pages '${metadata.total_pages}' must be a number`);
+    }
+  }
+
+  const edgeCases = extraction.edge_cases;
+  if (!isObject(edgeCases)) {
+    violations.push('edge_cases is missing - use empty lists when there are none');
+  } else {
+    for (const field of Object.keys(TEMPLATE.edge_cases as JsonObject)) {
+      if (!Array.isArray(edgeCases[field])) violations.push(`edge_cases.${field} must be a list (empty when there are none)`);
+    }
+  }
+
+  if (typeof extraction.extraction_notes !== 'string') {
+    violations.push('extraction_notes is missing');
+  }
+
+  return violations;
+}
+
+/**
+ * The extraction as an object, whether it was passed as JSON or as a string
+ */
+export function parseExtraction(extraction: ValidateFinanceExtractionInput['extraction']): JsonObject {
+  if (typeof extraction !== 'string') return extraction;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extraction);
+  } catch (error) {
+    throw new Error(`extraction is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error('extraction must be a JSON object');
+  }
+  return parsed;
+}
+
+/**
+ * Check an extraction against the JSON template. Shared by the validator tool
+ * and the ERP export so both apply exactly the same rules.
+ */
+export function checkFinanceExtraction(extraction: JsonObject): FinanceValidationReport {
+  const warnings: string[] = [];
+  const businessNumbers: PartyNumbers[] = [];
+  const categories = FINANCE_CATEGORY_KEYS.map((key, index) => checkCategory(extraction, key, index, businessNumbers, warnings));
+  const documentViolations = checkDocument(extraction);
+
+  const unknownKeys = Object.keys(extraction).filter(key => !(key in TEMPLATE));
+  if (unknownKeys.length > 0) {
+    warnings.push(`Keys not in the template are ignored: ${unknownKeys.join(', ')}`);
+  }
+
+  const violationCount = documentViolations.length + categories.reduce((sum, c) => sum + c.violations.length, 0);
+
+  return {
+    valid: violationCount === 0,
+    violation_count: violationCount,
+    categories_found: categories.filter(c => c.status === 'EXTRACTED' || c.status === 'CONFLICT_DETECTED').length,
+    categories_not_found: categories.filter(c => c.status === 'NOT_FOUND').map(c => c.key),
+    categories_missing: categories.filter(c => c.status === 'MISSING').map(c => c.key),
+    categories,
+    business_numbers: businessNumbers,
+    document_violations: documentViolations,
+    warnings,
+  };
+}
+
+/**
+ * Check a completed finance extraction against the JSON template before it
+ * reaches the ERP: every category addressed, sourced values, NOT_FOUND search
+ * summaries, $X,XXX amounts and ABN/ACN checksums
+ */
+export function validateFinanceExtraction(input: ValidateFinanceExtractionInput): string {
+  const { financeExtraction } = getKnowledgeBase();
+
+  const response = {
+    ...checkFinanceExtraction(parseExtraction(input.extraction)),
+    validation_checklist: financeExtraction.validation_checklist,
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+interface DollarMention {
+  amount: string;
+  value: number;
+  as_written: string;
+  relates_to: string | null;
+  rate: string | null;
+  gst_treatment: 'Exclusive' | 'Inclusive' | 'Not specified';
+  gst_wording: string | null;
+  source: string;
+  context: string;
+}
+
+interface FoundAmount {
+  start: number;
+  end: number;
+  value: number;
+  words: boolean;
+  // Start of the table row an unmarked figure was read from; its subject is in that row
+  rowStart?: number;
+}
+
+const DOLLAR_MENTIONS_CATEGORY = 9;
+const SCALES: Record<string, number> = { k: 1_000, thousand: 1_000, m: 1_000_000, mil: 1_000_000, million: 1_000_000, b: 1_000_000_000, bn: 1_000_000_000, billion: 1_000_000_000 };
+// "$1.5m", "$1,500,000.00", "AUD 250,000", "$ 20,000" in table columns, "2 million dollars". Commas
+// only count in groups of three, so "$60,000, plus GST" stops before the punctuation
+const NUMERIC_AMOUNT = /(?:\bAUD\s?|(?<![A-Za-z])A?\$\s?)(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?:\s?(million|mil|thousand|billion|bn|m|k|b)\b)?|(?<![\d.,$])(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s*(million|thousand|billion)?\s+(?:Australian\s+)?dollars\b/gi;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const WORD_SCALES: Record<string, number> = { hundred: 100, thousand: 1_000, million: 1_000_000, billion: 1_000_000_000 };
+const NUMBER_WORD = `(?:${[...Object.keys(NUMBER_WORDS), ...Object.keys(WORD_SCALES)].join('|')})`;
+// "one million five hundred thousand dollars", "two hundred and fifty thousand Australian dollars"
+const WORD_AMOUNT = new RegExp(`\\b${NUMBER_WORD}(?:(?:[\\s-]+and)?[\\s-]+${NUMBER_WORD})*\\s+(?:Australian\\s+)?dollars\\b`, 'gi');
+
+// Compared by distance to the amount, so "$1.2M excluding GST ($1.32M including GST)" reads each correctly
+const GST_PATTERNS: Array<{ treatment: 'Exclusive' | 'Inclusive'; pattern: RegExp }> = [
+  { treatment: 'Exclusive', pattern: /\bplus\s+GST\b|\+\s*GST\b|\bexcl(?:usive|uding|\.)?\s+(?:of\s+)?GST\b|\bex\.?\s+GST\b|\bGST[\s-]exclusive\b|\bexclusive\s+of\s+(?:all\s+)?(?:taxes|GST)\b/gi },
+  { treatment: 'Inclusive', pattern: /\bincl(?:usive|uding|\.)?\s+(?:of\s+)?GST\b|\binc\.?\s+GST\b|\bGST[\s-]inclusive\b/gi },
+];
+const GST_WINDOW_BEFORE = 60;
+const GST_WINDOW_AFTER = 100;
+const RATE = /^\s*(?:\([^)]*\)\s*)?(?:excl(?:uding|usive of)?|plus|incl(?:uding|usive of)?)?\s*(?:GST\s*)?(per\s+(?:calendar\s+|business\s+|working\s+)?(?:day|week|month|hour|annum|year|occurrence|claim|event|item|unit|m2|m3|tonne|lineal metre)|each|a\s+day)\b/i;
+// Table cells: "| Contract Sum | 1,250,000.00 |", tab or wide-gap columns from a PDF
+const TABLE_CELL_SEPARATOR = /\s*[|\t]\s*|\s{2,}/g;
+// A cell that is just a figure without "$": grouped thousands or at least four digits, so item numbers are not read
+const TABLE_CELL_AMOUNT = /^(\d{1,3}(?:,\d{3})+|\d{4,})(\.\d{1,2})?(?=\s|$)/;
+const WORD_DUPLICATE_DISTANCE = 60;
+const CONTEXT_CHARS = 160;
+
+function formatAud(value: number): string {
+  const cents = Math.round(value * 100) % 100 !== 0;
+  return `$${value.toLocaleString('en-AU', { minimumFractionDigits: cents ? 2 : 0, maximumFractionDigits: 2 })}`;
+}
+
+function wordsToNumber(text: string): number {
+  let total = 0;
+  let current = 0;
+  for (const word of text.toLowerCase().split(/[\s-]+/)) {
+    if (word in NUMBER_WORDS) {
+      current += NUMBER_WORDS[word];
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word in WORD_SCALES) {
+      total += (current || 1) * WORD_SCALES[word];
+      current = 0;
+    }
+  }
+  return total + current;
+}
+
+/**
+ * Terms that make a table row an amount: the names of the contract value and
+ * the finance guide's dollar terms ("sum", "price", "fee", "cost")
+ */
+function amountLabelTerms(): string[] {
+  const { financeExtraction } = getKnowledgeBase();
+  return financeExtraction.extraction_categories
+    .filter(c => c.id === 1 || c.id === DOLLAR_MENTIONS_CATEGORY)
+    .flatMap(c => [...c.search_terms.primary, ...c.search_terms.secondary, ...(c.alternative_names ?? [])])
+    .filter(term => /^[a-z]/i.test(term));
+}
+
+/**
+ * Figures written without "$" in a table row whose label names an amount,
+ * e.g. "| Contract Sum | 1,250,000.00 |" in a schedule
+ */
+function findTableAmounts(text: string, labelTerms: string[]): FoundAmount[] {
+  const found: FoundAmount[] = [];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    const cells: Array<{ start: number; text: string }> = [];
+    let cellStart = 0;
+    for (const separator of line.matchAll(TABLE_CELL_SEPARATOR)) {
+      cells.push({ start: cellStart, text: line.slice(cellStart, separator.index) });
+      cellStart = (separator.index ?? 0) + separator[0].length;
+    }
+    cells.push({ start: cellStart, text: line.slice(cellStart) });
+
+    if (cells.length > 1) {
+      let label = '';
+      for (const cell of cells) {
+        const match = TABLE_CELL_AMOUNT.exec(cell.text);
+        if (match && labelTerms.some(term => termPattern(term).test(label))) {
+          const start = lineStart + cell.start;
+          const value = Number(`${match[1].replace(/,/g, '')}${match[2] ?? ''}`);
+          if (value > 0) found.push({ start, end: start + match[0].length, value, words: false, rowStart: lineStart });
+        } else if (!match) {
+          label = `${label} ${cell.text}`;
+        }
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return found;
+}
+
+/**
+ * Every amount on a page, figures and words. An amount written in words and
+ * repeated in figures next to it, "one million dollars ($1,000,000)", is one mention.
+ */
+function findAmounts(text: string, labelTerms: string[]): FoundAmount[] {
+  const numeric: FoundAmount[] = [...text.matchAll(NUMERIC_AMOUNT)].flatMap(match => {
+    const figures = match[1] ?? match[3];
+    const scale = (match[2] ?? match[4])?.toLowerCase();
+    const value = Number(figures.replace(/,/g, '')) * (scale ? SCALES[scale] : 1);
+    if (!Number.isFinite(value) || value === 0) return [];
+    const start = match.index ?? 0;
+    return [{ start, end: start + match[0].trimEnd().length, value, words: false }];
+  });
+
+  const words: FoundAmount[] = [...text.matchAll(WORD_AMOUNT)].flatMap(match => {
+    const value = wordsToNumber(match[0]);
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const repeated = numeric.some(n => n.value === value && n.start - end < WORD_DUPLICATE_DISTANCE && start - n.end < WORD_DUPLICATE_DISTANCE);
+    return value > 0 && !repeated ? [{ start, end, value, words: true }] : [];
+  });
+
+  const overlaps = (a: FoundAmount) => [...numeric, ...words].some(b => a.start < b.end && b.start < a.end);
+  const table = findTableAmounts(text, labelTerms).filter(amount => !overlaps(amount));
+
+  return [...numeric, ...words, ...table].sort((a, b) => a.start - b.start);
+}
+
+function gstNear(text: string, sentence: { start: number; end: number }, amount: FoundAmount): Pick<DollarMention, 'gst_treatment' | 'gst_wording'> {
+  const from = Math.max(sentence.start, amount.start - GST_WINDOW_BEFORE);
+  const to = Math.min(sentence.end, amount.end + GST_WINDOW_AFTER);
+  const window = text.slice(from, to);
+
+  let nearest: { treatment: 'Exclusive' | 'Inclusive'; wording: string; distance: number } | null = null;
+  for (const { treatment, pattern } of GST_PATTERNS) {
+    for (const match of window.matchAll(pattern)) {
+      const start = from + (match.index ?? 0);
+      const end = start + match[0].length;
+      const distance = start >= amount.end ? start - amount.end : amount.start - end;
+      if (!nearest || distance < nearest.distance) {
+        nearest = { treatment, wording: match[0].replace(/\s+/g, ' '), distance };
+      }
+    }
+  }
+  return nearest
+    ? { gst_treatment: nearest.treatment, gst_wording: nearest.wording }
+    : { gst_treatment: 'Not specified', gst_wording: null };
+}
+
+/**
+ * Terms that say what an amount is: the contract value and security names
+ * from the finance guide and the principles' primary search terms
+ */
+function subjectTerms(): Array<{ term: string; dataPoint: string }> {
+  const { principles: principlesData, financeExtraction } = getKnowledgeBase();
+  const terms: Array<{ term: string; dataPoint: string }> = [];
+
+  for (const category of financeExtraction.extraction_categories.filter(c => c.id === 1 || c.id === 5)) {
+    const names = [...category.search_terms.primary, ...category.search_terms.secondary, ...(category.alternative_names ?? [])];
+    // All the names of the contract value are one data point; securities are each their own
+    terms.push(...names.map(term => ({ term, dataPoint: category.id === 1 ? category.name : term.toLowerCase() })));
+  }
+  for (const principle of principlesData.principles) {
+    terms.push(...principle.search_terms.primary.filter(term => !/\d/.test(term)).map(term => ({ term, dataPoint: term.toLowerCase() })));
+  }
+
+  return terms;
+}
+
+/**
+ * The subject term written closest before the amount in the same sentence
+ */
+function subjectOf(text: string, sentence: { start: number }, amount: FoundAmount, terms: Array<{ term: string; dataPoint: string }>): { term: string; dataPoint: string } | null {
+  const before = text.slice(sentence.start, amount.start);
+  let nearest: { term: string; dataPoint: string; end: number } | null = null;
+  for (const { term, dataPoint } of terms) {
+    for (const match of before.matchAll(termPattern(term))) {
+      const end = (match.index ?? 0) + match[0].length;
+      if (!nearest || end > nearest.end || (end === nearest.end && match[0].length > nearest.term.length)) {
+        nearest = { term: match[0].replace(/\s+/g, ' '), dataPoint, end };
+      }
+    }
+  }
+  return nearest ? { term: nearest.term, dataPoint: nearest.dataPoint } : null;
+}
+
+/**
+ * Different amounts given for the same thing, in the conflicting_values
+ * shape. An exclusive and an inclusive figure for the same sum do not conflict.
+ */
+function findConflicts(mentions: Array<DollarMention & { dataPoint: string | null }>) {
+  const byDataPoint = new Map<string, Array<DollarMention & { dataPoint: string | null }>>();
+  for (const mention of mentions) {
+    if (!mention.dataPoint || mention.rate) continue;
+    byDataPoint.set(mention.dataPoint, [...(byDataPoint.get(mention.dataPoint) ?? []), mention]);
+  }
+
+  const comparable = (a: DollarMention, b: DollarMention) =>
+    a.gst_treatment === b.gst_treatment || a.gst_treatment === 'Not specified' || b.gst_treatment === 'Not specified';
+
+  return [...byDataPoint.entries()].flatMap(([dataPoint, group]) => {
+    const conflicting = group.some(a => group.some(b => a.value !== b.value && comparable(a, b)));
+    if (!conflicting) return [];
+    return [{
+      data_point: dataPoint,
+      instances: group.map(m => ({ amount: m.amount, gst_treatment: m.gst_treatment, source: m.source })),
+      status: 'CONFLICT_DETECTED' as const,
+      note: 'Multiple values found - manual verification required',
+    }];
+  });
+}
+
+/**
+ * Scan contract text for every dollar amount (finance category 9) with its
+ * location, context and GST wording, and flag amounts that conflict
+ */
+export function extractDollarValues(input: ExtractDollarValuesInput): string {
+  const pages: ContractPage[] = resolveContractPages(input);
+  const clauseMap = buildClauseMap(pages);
+  const terms = subjectTerms();
+  const labelTerms = amountLabelTerms();
+
+  const mentions = pages.flatMap(page => {
+    const sentences = sentenceSpans(page.text);
+    return findAmounts(page.text, labelTerms).map(amount => {
+      const sentence = sentences.find(s => s.start <= amount.start && amount.start < s.end) ?? { start: 0, end: page.text.length };
+      const subject = subjectOf(page.text, { start: Math.max(sentence.start, amount.rowStart ?? 0) }, amount, terms);
+      const rate = RATE.exec(page.text.slice(amount.end, amount.end + 40))?.[1].replace(/\s+/g, ' ') ?? null;
+      return {
+        amount: formatAud(amount.value),
+        value: amount.value,
+        as_written: page.text.slice(amount.start, amount.end).replace(/\s+/g, ' '),
+        relates_to: subject?.term ?? null,
+        rate,
+        ...gstNear(page.text, sentence, amount),
+        source: formatReference(page.page, clauseAt(clauseMap, page.page, amount.start)),
+        context: snippetAround(page.text, amount.start, amount.end, CONTEXT_CHARS),
+        dataPoint: subject?.dataPoint ?? null,
+      };
+    });
+  });
+
+  const conflicts = findConflicts(mentions);
+
+  const response = {
+    total_pages: pages.length,
+    page_range: `${pages[0].page}-${pages[pages.length - 1].page}`,
+    amounts_found: mentions.length,
+    dollar_values: mentions.map(({ dataPoint, ...mention }) => mention),
+    edge_cases: {
+      conflicts_detected: conflicts,
+    },
+    note: mentions.length === 0
+      ? 'No dollar amounts found. If the contract value is stated only in a separate schedule or scanned page, it is not in this text.'
+      : 'Amounts are extracted as written and never calculated. relates_to is the nearest contract value, security or principle term before the amount - confirm it against the context.',
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const financeToolDefinitions = {
+  validate_finance_extraction: {
+    name: 'validate_finance_extraction',
+    description: `Validate a completed finance extraction against the JSON template from get_finance_extraction_guide before it is handed to accounts receivable.
+
+This tool provides:
+- A check that all 9 categories and their template fields are present (null or NOT_FOUND where the contract is silent)
+- Every extracted value has a "Page X, Clause X.X" source, and every conflicting value its own source
+- NOT_FOUND entries list the search terms used, as edge_case_handling.not_found requires
+- Amounts are in $X,XXX format
+- ABNs pass the 11-digit weighted checksum and ACNs the 9-digit check digit, so mistyped numbers never reach the ERP
+- Metadata, edge case lists and template text left unfilled
+
+Fix every violation and validate again before delivering the extraction.`,
+  },
+  extract_dollar_values: {
+    name: 'extract_dollar_values',
+    description: `Find every dollar amount in the contract text (finance category 9) without relying on a read-through: "$1.5m", "$1,500,000.00", "AUD 250,000", "one million dollars", amounts in table columns, and figures without "$" in table rows labelled as an amount ("| Contract Sum | 1,250,000.00 |").
+
+This tool provides:
+- Each amount in $X,XXX format with its wording as written, "Page X, Clause Y" source and surrounding context
+- The GST wording next to it (plus GST, exclusive, inclusive) as gst_treatment
+- What it relates to (the nearest contract value, security or principle term before it) and any rate ("per day")
+- edge_cases.conflicts_detected: the same data point given different amounts, e.g. a Contract Sum of $1.2M in the Agreement but $1.25M in Schedule 1, in the conflicting_values format
+
+INPUT: Contract text with page markers on their own line ('--- Page 12 ---', '[Page 12]') or a pages array.
+
+Amounts are extracted as written; nothing is calculated.`,
+  },
+};
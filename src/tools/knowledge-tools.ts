@@ -1,207 +1,179 @@
-import { readFileSync } from 'fs';
-import { dirname, join } from 'path';
+import { readFileSync, watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
 import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { getApprovedLearnings } from '../utils/learnings-store.js';
+import { projectFields, renderResponse } from '../utils/response-format.js';
+import { resolvePlaceholders, thresholdValues } from '../utils/thresholds.js';
+import type { ThresholdValues } from '../utils/thresholds.js';
+import {
+  PrinciplesDataSchema,
+  LearningsDataSchema,
+  FormatDataSchema,
+  FinanceExtractionDataSchema,
+  SectionMappingDataSchema,
+  ThresholdsDataSchema,
+  checkKnowledgeIntegrity,
+} from '../schemas/knowledge-schemas.js';
+import type {
+  PrinciplesData,
+  LearningsData,
+  FormatData,
+  FinanceExtractionData,
+  SectionMappingData,
+  ThresholdsData,
+} from '../schemas/knowledge-schemas.js';
 import type { GetPrinciplesInput, GetLearnedCorrectionsInput, GetFinanceExtractionGuideInput, GetSectionPrincipleMappingInput } from '../schemas/tool-schemas.js';
 
 // Get the directory of the current module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load JSON knowledge files
-const principlesPath = join(__dirname, '..', 'knowledge', 'principles.json');
-const learningsPath = join(__dirname, '..', 'knowledge', 'learnings.json');
-const formatPath = join(__dirname, '..', 'knowledge', 'format.json');
-const financeExtractionPath = join(__dirname, '..', 'knowledge', 'finance-extraction.json');
-const sectionMappingPath = join(__dirname, '..', 'knowledge', 'section-mapping.json');
-
-interface PrinciplesData {
-  principles: Array<{
-    id: number;
-    name: string;
-    standard: string;
-    risk_level: string;
-    search_terms: {
-      primary: string[];
-      alternative: string[];
-      related: string[];
-    };
-    red_flags: string[];
-    compliance_logic: {
-      compliant_if: string;
-      non_compliant_if: string;
-      no_term_risk: string;
-      special_note?: string;
-      critical_alert?: string;
-    };
-    negotiation_positions: {
-      preferred: string;
-      fallback: string;
-      deal_breaker: string;
-    };
-    departure_template: string;
-  }>;
-  critical_non_negotiables: Record<string, unknown>;
-  methodology: Record<string, unknown>;
-  interconnected_principles: Array<unknown>;
+// Knowledge JSON files ship next to the build; KNOWLEDGE_DIR points at an editable copy
+const knowledgeDir = process.env.KNOWLEDGE_DIR
+  ? resolve(process.env.KNOWLEDGE_DIR)
+  : join(__dirname, '..', 'knowledge');
+
+const principlesPath = join(knowledgeDir, 'principles.json');
+const learningsPath = join(knowledgeDir, 'learnings.json');
+const formatPath = join(knowledgeDir, 'format.json');
+const financeExtractionPath = join(knowledgeDir, 'finance-extraction.json');
+const sectionMappingPath = join(knowledgeDir, 'section-mapping.json');
+const thresholdsPath = join(knowledgeDir, 'thresholds.json');
+
+export type {
+  PrinciplesData,
+  LearningsData,
+  FormatData,
+  FinanceExtractionData,
+  SectionMappingData,
+  ThresholdsData,
+} from '../schemas/knowledge-schemas.js';
+
+export interface KnowledgeBase {
+  principles: PrinciplesData;
+  learnings: LearningsData;
+  format: FormatData;
+  financeExtraction: FinanceExtractionData;
+  sectionMapping: SectionMappingData;
+  thresholds: ThresholdsData;
 }
 
-interface LearningsData {
-  learnings: Array<{
-    id: string;
-    category: string;
-    principle_id: number | null;
-    date_logged?: string;
-    issue: string;
-    correction: string;
-    rule: string;
-    examples?: Record<string, string | string[]>;
-    interconnected_principles?: number[];
-    decision_tree?: Record<string, string>;
-  }>;
-  decision_trees: Record<string, unknown>;
-  category_summaries: Record<string, unknown>;
-}
+// Replaced as a whole on reload, so a tool call never sees a mix of old and new files
+let knowledgeBase: KnowledgeBase | undefined;
 
-interface FormatData {
-  csv_structure: Record<string, unknown>;
-  column_specifications: Record<string, unknown>;
-  example_rows: string[];
-  quality_checklist: string[];
-  complete_csv_example: string;
-}
+/**
+ * Read and validate one knowledge file, reporting every problem with its path
+ */
+function loadKnowledgeFile<S extends z.ZodTypeAny>(path: string, schema: S): z.output<S> {
+  const file = basename(path);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read knowledge file ${file}: ${errorMessage}`);
+  }
 
-interface FinanceExtractionData {
-  tool_metadata: {
-    name: string;
-    version: string;
-    purpose: string;
-    design_principle: string;
-  };
-  business_context: {
-    company: string;
-    industry: string;
-    typical_contracts: string[];
-    contract_value_range: string;
-    regulatory_context: string;
-  };
-  target_audience: {
-    team: string;
-    responsibilities: string[];
-    use_case: string;
-  };
-  extraction_categories: Array<{
-    id: number;
-    name: string;
-    description: string;
-    alternative_names?: string[];
-    search_terms: {
-      primary: string[];
-      secondary: string[];
-      related: string[];
-    };
-    extraction_rules: string[];
-    output_fields: Record<string, string>;
-  }>;
-  extraction_methodology: {
-    document_scan_order: Array<{
-      priority: number;
-      section: string;
-      rationale: string;
-    }>;
-    extraction_rules: string[];
-  };
-  edge_case_handling: Record<string, unknown>;
-  output_format: {
-    style_requirements: Record<string, string>;
-    json_structure: Record<string, unknown>;
-  };
-  validation_checklist: string[];
-  explicit_constraints: {
-    do_not: string[];
-  };
-  domain_expertise: {
-    regulatory_knowledge: string[];
-    contract_standards: string[];
-    terminology: Record<string, string>;
-  };
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `  ${file}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid knowledge file ${file}:\n${issues.join('\n')}`);
+  }
+  return result.data;
 }
 
-interface SectionMappingData {
-  metadata: {
-    version: string;
-    purpose: string;
-    created: string;
-    usage: string;
-  };
-  large_contract_guidance: {
-    when_to_use: string;
-    strategy: string;
-    workflow: string[];
-    token_estimates: {
-      per_page_average_tokens: number;
-      claude_context_limit: number;
-      safe_chunk_size_pages: number;
-      recommended_chunk_size_pages: number;
-    };
-  };
-  section_groups: Array<{
-    group_id: string;
-    group_name: string;
-    typical_sections: string[];
-    page_range_hint: string;
-    principles_to_check: number[];
-    principle_details: Array<{
-      id: number;
-      name: string;
-      search_for: string;
-    }>;
-    critical_alerts?: string[];
-    analysis_prompt: string;
-  }>;
-  quick_reference: {
-    non_negotiable_principles: {
-      ids: number[];
-      groups_containing: string[];
-      note: string;
-    };
-    negotiable_principles: {
-      ids: number[];
-      groups_containing: string[];
-      note: string;
-    };
-    principle_to_group_map: Record<string, string>;
-  };
-  combining_results_template: {
-    instruction: string;
-    format: string;
-    ordering: string[];
-    final_prompt: string;
+/**
+ * Read all six files and validate them together so cross-file drift fails fast.
+ * Threshold placeholders are filled in here, so every tool sees the final text.
+ */
+function readKnowledgeBase(): KnowledgeBase {
+  const principles = loadKnowledgeFile(principlesPath, PrinciplesDataSchema);
+  const learnings = loadKnowledgeFile(learningsPath, LearningsDataSchema);
+  const format = loadKnowledgeFile(formatPath, FormatDataSchema);
+  const financeExtraction = loadKnowledgeFile(financeExtractionPath, FinanceExtractionDataSchema);
+  const sectionMapping = loadKnowledgeFile(sectionMappingPath, SectionMappingDataSchema);
+  const thresholds = loadKnowledgeFile(thresholdsPath, ThresholdsDataSchema);
+
+  const problems = checkKnowledgeIntegrity({ principles, learnings, format, financeExtraction, sectionMapping, thresholds });
+  if (problems.length > 0) {
+    throw new Error(`Knowledge files are inconsistent:\n${problems.map(p => `  ${p}`).join('\n')}`);
+  }
+
+  return {
+    principles: resolvePlaceholders(principles, thresholds),
+    learnings: resolvePlaceholders(learnings, thresholds),
+    format: resolvePlaceholders(format, thresholds),
+    financeExtraction: resolvePlaceholders(financeExtraction, thresholds),
+    sectionMapping: resolvePlaceholders(sectionMapping, thresholds),
+    thresholds,
   };
 }
 
-let principlesData: PrinciplesData;
-let learningsData: LearningsData;
-let formatData: FormatData;
-let financeExtractionData: FinanceExtractionData;
-let sectionMappingData: SectionMappingData;
-
 // Load data lazily to avoid issues during module initialization
-function loadData() {
-  if (!principlesData) {
-    principlesData = JSON.parse(readFileSync(principlesPath, 'utf-8'));
-  }
-  if (!learningsData) {
-    learningsData = JSON.parse(readFileSync(learningsPath, 'utf-8'));
-  }
-  if (!formatData) {
-    formatData = JSON.parse(readFileSync(formatPath, 'utf-8'));
-  }
-  if (!financeExtractionData) {
-    financeExtractionData = JSON.parse(readFileSync(financeExtractionPath, 'utf-8'));
-  }
-  if (!sectionMappingData) {
-    sectionMappingData = JSON.parse(readFileSync(sectionMappingPath, 'utf-8'));
+function loadData(): KnowledgeBase {
+  if (!knowledgeBase) {
+    knowledgeBase = readKnowledgeBase();
   }
+  return knowledgeBase;
+}
+
+/**
+ * Get the loaded knowledge files for tools that compute over them
+ * rather than returning them verbatim
+ */
+export function getKnowledgeBase(): KnowledgeBase {
+  return loadData();
+}
+
+/**
+ * DuraCube's commercial numbers from thresholds.json, for the assessment
+ * tools and decision trees to compare contract terms against
+ */
+export function getDuracubeStandards(): ThresholdValues {
+  return thresholdValues(loadData().thresholds);
+}
+
+/**
+ * Re-read the knowledge files and swap them in. If any file is invalid the
+ * error is thrown and the previously loaded knowledge stays in place.
+ */
+export function reloadKnowledgeBase(): KnowledgeBase {
+  knowledgeBase = readKnowledgeBase();
+  return knowledgeBase;
+}
+
+const KNOWLEDGE_FILES = new Set([principlesPath, learningsPath, formatPath, financeExtractionPath, sectionMappingPath, thresholdsPath].map(p => basename(p)));
+
+/**
+ * Watch the knowledge directory and reload after edits settle. onReload runs
+ * only when the new files pass validation; rejected edits are logged and ignored.
+ */
+export function watchKnowledgeFiles(onReload: () => void): FSWatcher {
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = () => {
+    timer = undefined;
+    try {
+      reloadKnowledgeBase();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Knowledge reload rejected, keeping previous version:\n${errorMessage}`);
+      return;
+    }
+    console.error('Knowledge files reloaded');
+    onReload();
+  };
+
+  // Editors often write a file in several steps (truncate, write, rename), so wait for them to finish
+  const watcher = watch(knowledgeDir, (_event, filename) => {
+    if (filename && !KNOWLEDGE_FILES.has(filename.toString())) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(reload, 300);
+  });
+  watcher.unref();
+  return watcher;
 }
 
 /**
@@ -209,21 +181,29 @@ function loadData() {
  * red flags, and compliance logic for contract review
  */
 export function getDuracubePrinciples(input: GetPrinciplesInput): string {
-  loadData();
+  const { principles: principlesData, thresholds } = loadData();
+
+  const { include_examples, principle_ids, category, fields, include_workflow_guidance, format } = input;
 
-  const { include_examples } = input;
+  const selectedPrinciples = principlesData.principles.filter(p =>
+    (!principle_ids || principle_ids.includes(p.id)) && (category === 'all' || p.category === category)
+  );
+  const selectedIds = new Set(selectedPrinciples.map(p => p.id));
+  const isFiltered = selectedPrinciples.length !== principlesData.principles.length;
 
   // Build response with principles
   const response: {
-    _workflow_guidance: {
+    _workflow_guidance?: {
       message: string;
       recommendation: string;
       alternative_tool: string;
       when_to_switch: string[];
     };
     total_principles: number;
-    principles: Array<{
+    filter_applied?: { principle_ids?: number[]; category: string };
+    principles: Array<Partial<{
       id: number;
+      category: string;
       name: string;
       standard: string;
       risk_level: string;
@@ -246,12 +226,17 @@ export function getDuracubePrinciples(input: GetPrinciplesInput): string {
         deal_breaker: string;
       };
       departure_template?: string;
-    }>;
+    }>>;
     critical_non_negotiables: Record<string, unknown>;
     methodology: Record<string, unknown>;
     interconnected_principles: Array<unknown>;
+    thresholds: {
+      version: string;
+      updated: string;
+      values: Record<string, { value: number; unit: string; description: string }>;
+    };
   } = {
-    _workflow_guidance: {
+    _workflow_guidance: include_workflow_guidance ? {
       message: "⚠️ FOR LARGE CONTRACTS (100+ pages): Use get_section_principle_mapping instead for optimized context usage",
       recommendation: "If contract exceeds 100 pages, call get_section_principle_mapping with group_id='all' for section-based analysis",
       alternative_tool: "get_section_principle_mapping",
@@ -261,11 +246,13 @@ export function getDuracubePrinciples(input: GetPrinciplesInput): string {
         "Contract has complex structure with many schedules",
         "You want to save context window tokens"
       ]
-    },
-    total_principles: principlesData.principles.length,
-    principles: principlesData.principles.map(p => {
+    } : undefined,
+    total_principles: selectedPrinciples.length,
+    filter_applied: isFiltered ? { principle_ids, category } : undefined,
+    principles: projectFields(selectedPrinciples.map(p => {
       const principle: {
         id: number;
+        category: string;
         name: string;
         standard: string;
         risk_level: string;
@@ -290,6 +277,7 @@ export function getDuracubePrinciples(input: GetPrinciplesInput): string {
         departure_template?: string;
       } = {
         id: p.id,
+        category: p.category,
         name: p.name,
         standard: p.standard,
         risk_level: p.risk_level,
@@ -299,18 +287,36 @@ export function getDuracubePrinciples(input: GetPrinciplesInput): string {
         negotiation_positions: p.negotiation_positions,
       };
 
-      if (include_examples) {
+      if (include_examples || fields?.includes('departure_template')) {
         principle.departure_template = p.departure_template;
       }
 
       return principle;
-    }),
-    critical_non_negotiables: principlesData.critical_non_negotiables,
+    }), fields, ['id']),
+    // When filtered, keep only the rules and relationships that involve a selected principle
+    critical_non_negotiables: isFiltered
+      ? Object.fromEntries(
+          Object.entries(principlesData.critical_non_negotiables)
+            .filter(([, rule]) => rule.related_principles.some(id => selectedIds.has(id)))
+        )
+      : principlesData.critical_non_negotiables,
     methodology: principlesData.methodology,
-    interconnected_principles: principlesData.interconnected_principles,
+    interconnected_principles: isFiltered
+      ? principlesData.interconnected_principles.filter(link => selectedIds.has(link.principle_a) || selectedIds.has(link.principle_b))
+      : principlesData.interconnected_principles,
+    // The numbers the standards above were written from; changes are listed in thresholds.json
+    thresholds: {
+      version: thresholds.metadata.version,
+      updated: thresholds.metadata.updated,
+      values: Object.fromEntries(
+        Object.entries(thresholds.thresholds)
+          .filter(([, t]) => !isFiltered || t.principle_ids.some(id => selectedIds.has(id)))
+          .map(([key, t]) => [key, { value: t.value, unit: t.unit, description: t.description }])
+      ),
+    },
   };
 
-  return JSON.stringify(response, null, 2);
+  return renderResponse(response, format, 'DuraCube Commercial Principles');
 }
 
 /**
@@ -318,101 +324,54 @@ export function getDuracubePrinciples(input: GetPrinciplesInput): string {
  * critical edge cases for accurate analysis
  */
 export function getLearnedCorrections(input: GetLearnedCorrectionsInput): string {
-  loadData();
+  const { learnings: learningsData } = loadData();
 
-  const { category } = input;
+  const { category, principle_ids, fields, include_decision_trees, format } = input;
 
-  // Filter learnings by category if specified
-  const filteredLearnings = category === 'all'
-    ? learningsData.learnings
-    : learningsData.learnings.filter(l => l.category === category);
+  // Approved corrections recorded since the last deploy extend the bundled set
+  const approvedLearnings = getApprovedLearnings();
+  const allLearnings = [...learningsData.learnings, ...approvedLearnings];
+
+  // Filter learnings by category and principle if specified
+  const matchesFilter = (l: typeof allLearnings[number]) =>
+    (category === 'all' || l.category === category) &&
+    (!principle_ids || (l.principle_id !== null && principle_ids.includes(l.principle_id)) ||
+      Boolean(l.interconnected_principles?.some(id => principle_ids.includes(id))));
+  const filteredLearnings = allLearnings.filter(matchesFilter);
 
   const response = {
     total_learnings: filteredLearnings.length,
     filter_applied: category,
-    learnings: filteredLearnings,
-    decision_trees: learningsData.decision_trees,
-    category_summaries: category === 'all'
-      ? learningsData.category_summaries
-      : { [category]: learningsData.category_summaries[category as keyof typeof learningsData.category_summaries] },
+    principle_ids,
+    recorded_learning_ids: approvedLearnings
+      .filter(matchesFilter)
+      .map(l => l.id),
+    learnings: projectFields(filteredLearnings, fields, ['id']),
+    decision_trees: include_decision_trees ? learningsData.decision_trees : undefined,
+    category_summaries: !include_decision_trees
+      ? undefined
+      : category === 'all'
+        ? learningsData.category_summaries
+        : { [category]: learningsData.category_summaries[category as keyof typeof learningsData.category_summaries] },
   };
 
-  return JSON.stringify(response, null, 2);
+  return renderResponse(response, format, 'Learned Corrections');
 }
 
 /**
  * Get exact CSV format specification for departure schedules
  */
 export function getOutputFormat(): string {
-  loadData();
+  const { format: formatData } = loadData();
 
   return JSON.stringify(formatData, null, 2);
 }
 
 /**
- * Get finance extraction guide for extracting 9 key finance data points from contracts.
- * This is for DuraCube's finance team - EXTRACT ONLY, no assessment or judgment.
+ * The JSON a finished finance extraction must follow; validate_finance_extraction
+ * checks extractions against the keys it lists.
  */
-export function getFinanceExtractionGuide(input: GetFinanceExtractionGuideInput): string {
-  loadData();
-
-  const { include_json_template, category } = input;
-
-  // Category mapping for filtering
-  const categoryMap: Record<string, number[]> = {
-    all: [1, 2, 3, 4, 5, 6, 7, 8, 9],
-    contract_value: [1],
-    parties: [2],
-    payment: [3, 4],
-    retention: [5],
-    documentation: [6],
-    submission: [7],
-    project_manager: [8],
-    dollar_values: [9],
-  };
-
-  const categoryIds = categoryMap[category] || categoryMap.all;
-
-  // Filter categories based on selection
-  const filteredCategories = financeExtractionData.extraction_categories.filter(
-    (cat) => categoryIds.includes(cat.id)
-  );
-
-  // Build the response
-  const response: {
-    tool_purpose: string;
-    design_principle: string;
-    business_context: typeof financeExtractionData.business_context;
-    target_audience: typeof financeExtractionData.target_audience;
-    total_categories: number;
-    filter_applied: string;
-    extraction_categories: typeof filteredCategories;
-    extraction_methodology: typeof financeExtractionData.extraction_methodology;
-    edge_case_handling: typeof financeExtractionData.edge_case_handling;
-    validation_checklist: typeof financeExtractionData.validation_checklist;
-    explicit_constraints: typeof financeExtractionData.explicit_constraints;
-    domain_expertise: typeof financeExtractionData.domain_expertise;
-    output_format?: typeof financeExtractionData.output_format;
-    json_output_template?: string;
-  } = {
-    tool_purpose: financeExtractionData.tool_metadata.purpose,
-    design_principle: financeExtractionData.tool_metadata.design_principle,
-    business_context: financeExtractionData.business_context,
-    target_audience: financeExtractionData.target_audience,
-    total_categories: filteredCategories.length,
-    filter_applied: category,
-    extraction_categories: filteredCategories,
-    extraction_methodology: financeExtractionData.extraction_methodology,
-    edge_case_handling: financeExtractionData.edge_case_handling,
-    validation_checklist: financeExtractionData.validation_checklist,
-    explicit_constraints: financeExtractionData.explicit_constraints,
-    domain_expertise: financeExtractionData.domain_expertise,
-  };
-
-  // Include JSON template if requested
-  if (include_json_template) {
-    response.output_format = financeExtractionData.output_format;
-    response.json_output_template = `{
+export const FINANCE_JSON_TEMPLATE = `{
   "extraction_metadata": {
     "document_name": "[PDF filename]",
     "extraction_date": "[DD/MM/YYYY]",
@@ -501,9 +460,74 @@ export function getFinanceExtractionGuide(input: GetFinanceExtractionGuideInput)
 
   "extraction_notes": "[Any factual observations about document quality or structure]"
 }`;
+
+/**
+ * Get finance extraction guide for extracting 9 key finance data points from contracts.
+ * This is for DuraCube's finance team - EXTRACT ONLY, no assessment or judgment.
+ */
+export function getFinanceExtractionGuide(input: GetFinanceExtractionGuideInput): string {
+  const { financeExtraction: financeExtractionData } = loadData();
+
+  const { include_json_template, category, fields, format } = input;
+
+  // Category mapping for filtering
+  const categoryMap: Record<string, number[]> = {
+    all: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+    contract_value: [1],
+    parties: [2],
+    payment: [3, 4],
+    retention: [5],
+    documentation: [6],
+    submission: [7],
+    project_manager: [8],
+    dollar_values: [9],
+  };
+
+  const categoryIds = categoryMap[category] || categoryMap.all;
+
+  // Filter categories based on selection
+  const filteredCategories = financeExtractionData.extraction_categories.filter(
+    (cat) => categoryIds.includes(cat.id)
+  );
+
+  // Build the response
+  const response: {
+    tool_purpose: string;
+    design_principle: string;
+    business_context: typeof financeExtractionData.business_context;
+    target_audience: typeof financeExtractionData.target_audience;
+    total_categories: number;
+    filter_applied: string;
+    extraction_categories: Array<Partial<typeof filteredCategories[number]>>;
+    extraction_methodology: typeof financeExtractionData.extraction_methodology;
+    edge_case_handling: typeof financeExtractionData.edge_case_handling;
+    validation_checklist: typeof financeExtractionData.validation_checklist;
+    explicit_constraints: typeof financeExtractionData.explicit_constraints;
+    domain_expertise: typeof financeExtractionData.domain_expertise;
+    output_format?: typeof financeExtractionData.output_format;
+    json_output_template?: string;
+  } = {
+    tool_purpose: financeExtractionData.tool_metadata.purpose,
+    design_principle: financeExtractionData.tool_metadata.design_principle,
+    business_context: financeExtractionData.business_context,
+    target_audience: financeExtractionData.target_audience,
+    total_categories: filteredCategories.length,
+    filter_applied: category,
+    extraction_categories: projectFields(filteredCategories, fields, ['id']),
+    extraction_methodology: financeExtractionData.extraction_methodology,
+    edge_case_handling: financeExtractionData.edge_case_handling,
+    validation_checklist: financeExtractionData.validation_checklist,
+    explicit_constraints: financeExtractionData.explicit_constraints,
+    domain_expertise: financeExtractionData.domain_expertise,
+  };
+
+  // Include JSON template if requested
+  if (include_json_template) {
+    response.output_format = financeExtractionData.output_format;
+    response.json_output_template = FINANCE_JSON_TEMPLATE;
   }
 
-  return JSON.stringify(response, null, 2);
+  return renderResponse(response, format, 'Finance Extraction Guide');
 }
 
 /**
@@ -511,14 +535,31 @@ export function getFinanceExtractionGuide(input: GetFinanceExtractionGuideInput)
  * Use this when contracts exceed token limits - analyze sections in groups.
  */
 export function getSectionPrincipleMapping(input: GetSectionPrincipleMappingInput): string {
-  loadData();
+  const { sectionMapping: sectionMappingData, principles: principlesData } = loadData();
+
+  const { group_id, include_prompts, principle_ids, category, fields, format } = input;
 
-  const { group_id, include_prompts } = input;
+  // Principles the caller asked for; groups are narrowed to these and dropped if none remain
+  const isPrincipleFiltered = Boolean(principle_ids) || category !== 'all';
+  const selectedIds = new Set(
+    principlesData.principles
+      .filter(p => (!principle_ids || principle_ids.includes(p.id)) && (category === 'all' || p.category === category))
+      .map(p => p.id)
+  );
 
   // Filter section groups if specific group requested
-  const filteredGroups = group_id === 'all'
+  const filteredGroups = (group_id === 'all'
     ? sectionMappingData.section_groups
-    : sectionMappingData.section_groups.filter(g => g.group_id === group_id);
+    : sectionMappingData.section_groups.filter(g => g.group_id === group_id)
+  )
+    .map(g => isPrincipleFiltered
+      ? {
+          ...g,
+          principles_to_check: g.principles_to_check.filter(id => selectedIds.has(id)),
+          principle_details: g.principle_details.filter(d => selectedIds.has(d.id)),
+        }
+      : g)
+    .filter(g => g.principles_to_check.length > 0);
 
   // Build response
   const response: {
@@ -535,7 +576,8 @@ export function getSectionPrincipleMapping(input: GetSectionPrincipleMappingInpu
     token_guidance: typeof sectionMappingData.large_contract_guidance.token_estimates;
     total_groups: number;
     filter_applied: string;
-    section_groups: Array<{
+    principle_filter?: { principle_ids?: number[]; category: string };
+    section_groups: Array<Partial<{
       group_id: string;
       group_name: string;
       typical_sections: string[];
@@ -548,7 +590,7 @@ export function getSectionPrincipleMapping(input: GetSectionPrincipleMappingInpu
       }>;
       critical_alerts?: string[];
       analysis_prompt?: string;
-    }>;
+    }>>;
     quick_reference: typeof sectionMappingData.quick_reference;
     combining_results: typeof sectionMappingData.combining_results_template;
   } = {
@@ -571,7 +613,8 @@ export function getSectionPrincipleMapping(input: GetSectionPrincipleMappingInpu
     token_guidance: sectionMappingData.large_contract_guidance.token_estimates,
     total_groups: filteredGroups.length,
     filter_applied: group_id,
-    section_groups: filteredGroups.map(g => {
+    principle_filter: isPrincipleFiltered ? { principle_ids, category } : undefined,
+    section_groups: projectFields(filteredGroups.map(g => {
       const group: {
         group_id: string;
         group_name: string;
@@ -603,12 +646,12 @@ export function getSectionPrincipleMapping(input: GetSectionPrincipleMappingInpu
       }
 
       return group;
-    }),
+    }), fields, ['group_id']),
     quick_reference: sectionMappingData.quick_reference,
     combining_results: sectionMappingData.combining_results_template,
   };
 
-  return JSON.stringify(response, null, 2);
+  return renderResponse(response, format, 'Section Principle Mapping');
 }
 
 // Export tool definitions for MCP registration
@@ -635,17 +678,10 @@ This tool provides:
 - Critical non-negotiables (PI Insurance, unconditional guarantees, parent company guarantees)
 - Analysis methodology (3-pass extraction, 3-step comparison)
 
-For LARGE contracts (100+ pages), use get_section_principle_mapping instead - it provides optimized section-based analysis with ready-to-use prompts that save context window tokens.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        include_examples: {
-          type: 'boolean',
-          default: false,
-          description: 'Include departure templates showing example language changes',
-        },
-      },
-    },
+For LARGE contracts (100+ pages), use get_section_principle_mapping instead - it provides optimized section-based analysis with ready-to-use prompts that save context window tokens.
+
+TRIM THE RESPONSE: principle_ids=[15, 16] or category='NON-NEGOTIABLE' to filter, fields=['name', 'standard'] to project,
+include_workflow_guidance=false to drop the guidance block, format='compact' or 'markdown' to render.`,
   },
   get_learned_corrections: {
     name: 'get_learned_corrections',
@@ -653,9 +689,10 @@ For LARGE contracts (100+ pages), use get_section_principle_mapping instead - it
 
 This tool provides:
 - Documented errors and their corrections
-- Decision trees for complex assessments
+- Decision trees for complex assessments (execute them with run_decision_tree)
 - Category-specific rules (security, insurance, DLP, design, methodology)
 - Interconnected principle dependencies
+- Approved corrections recorded with record_learned_correction since the last deploy
 
 Categories:
 - security: Bank guarantees, retention, parent company guarantees
@@ -664,18 +701,9 @@ Categories:
 - design: Design scope limitations, shop drawings
 - methodology: Page references, template analysis, favorability assessment
 
-Use this tool to avoid repeating known errors and handle edge cases correctly.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        category: {
-          type: 'string',
-          enum: ['all', 'security', 'insurance', 'dlp', 'design', 'methodology'],
-          default: 'all',
-          description: 'Filter learnings by category',
-        },
-      },
-    },
+Use this tool to avoid repeating known errors and handle edge cases correctly.
+
+TRIM THE RESPONSE: principle_ids to filter, fields=['id', 'rule'] to project, include_decision_trees=false, format='compact' or 'markdown'.`,
   },
   get_output_format: {
     name: 'get_output_format',
@@ -690,8 +718,9 @@ This tool provides:
 - Complete example with proper formatting
 - Quality checklist for output validation
 
-EXCEL CREATION REQUIREMENTS:
-- Use Python with openpyxl or xlsxwriter library
+EXCEL CREATION:
+- Preferred: call generate_departure_schedule_xlsx with the findings - the server builds the workbook below
+- Only if that tool is unavailable, use Python with openpyxl or xlsxwriter library
 - Apply conditional formatting to Status column (Column C)
 - Merge header row (A1:G1) with project details
 - Set column widths: A=5, B=30, C=15, D=20, E=50, F=50, G=20
@@ -705,10 +734,6 @@ CRITICAL RULES:
 - Comments column always empty
 
 Use this tool BEFORE generating the final departure schedule to ensure correct Excel format.`,
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
   },
   get_finance_extraction_guide: {
     name: 'get_finance_extraction_guide',
@@ -743,23 +768,9 @@ CRITICAL RULES:
 - Use NOT_FOUND with search summary for missing data
 - Flag conflicts when values differ across sections
 
-Use this tool when performing FINANCE REVIEW (separate from commercial 28-principle review).`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        include_json_template: {
-          type: 'boolean',
-          default: true,
-          description: 'Include the complete JSON output template in the response',
-        },
-        category: {
-          type: 'string',
-          enum: ['all', 'contract_value', 'parties', 'payment', 'retention', 'documentation', 'submission', 'project_manager', 'dollar_values'],
-          default: 'all',
-          description: 'Filter to specific extraction category',
-        },
-      },
-    },
+Use this tool when performing FINANCE REVIEW (separate from commercial 28-principle review).
+
+TRIM THE RESPONSE: fields=['name', 'extraction_rules'] to project categories, format='compact' or 'markdown'.`,
   },
   get_section_principle_mapping: {
     name: 'get_section_principle_mapping',
@@ -801,22 +812,9 @@ WHEN TO USE:
 - Contract is 100+ pages → USE THIS TOOL
 - Hit token limit errors → USE THIS TOOL
 - Complex contract with many schedules → USE THIS TOOL
-- Want efficient context usage → USE THIS TOOL`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        group_id: {
-          type: 'string',
-          enum: ['all', 'A', 'B', 'C', 'D', 'E', 'F', 'G'],
-          default: 'all',
-          description: 'Filter to specific section group (A=General, B=Payment/Security, C=Liability, D=Insurance, E=Disputes, F=Variations, G=Design/Completion)',
-        },
-        include_prompts: {
-          type: 'boolean',
-          default: true,
-          description: 'Include ready-to-use analysis prompts for each section group',
-        },
-      },
-    },
+- Want efficient context usage → USE THIS TOOL
+
+TRIM THE RESPONSE: principle_ids or category='NON-NEGOTIABLE' narrow each group to those principles,
+fields=['principles_to_check'] to project groups, format='compact' or 'markdown'.`,
   },
 };
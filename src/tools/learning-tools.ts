@@ -0,0 +1,68 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import { listStoredLearnings, proposeLearning } from '../utils/learnings-store.js';
+import type { RecordLearnedCorrectionInput } from '../schemas/tool-schemas.js';
+
+/**
+ * Record a correction found during a live review. It is stored as "proposed"
+ * and only merged into get_learned_corrections once an approver promotes it.
+ */
+export function recordLearnedCorrection(input: RecordLearnedCorrectionInput): string {
+  const { principles: principlesData, learnings: learningsData } = getKnowledgeBase();
+  const { submitted_by, ...learning } = input;
+
+  const principleIds = principlesData.principles.map(p => p.id);
+  const referenced = [
+    ...(learning.principle_id !== null ? [learning.principle_id] : []),
+    ...(learning.interconnected_principles ?? []),
+  ];
+  const unknown = referenced.filter(id => !principleIds.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown principle IDs: ${unknown.join(', ')}`);
+  }
+
+  const existing = [
+    ...learningsData.learnings,
+    ...listStoredLearnings().filter(l => l.review_status !== 'rejected'),
+  ];
+  const duplicate = existing.find(
+    l => l.rule.trim().toLowerCase() === learning.rule.toLowerCase()
+  );
+  if (duplicate) {
+    throw new Error(`Rule already documented as ${duplicate.id}`);
+  }
+
+  // Drop optional fields that were not supplied so stored entries match learnings.json
+  const entry = Object.fromEntries(
+    Object.entries(learning).filter(([, value]) => value !== undefined)
+  ) as typeof learning;
+
+  const stored = proposeLearning(
+    { ...entry, principle_id: learning.principle_id ?? null },
+    submitted_by ?? null,
+    learningsData.learnings.map(l => l.id)
+  );
+
+  const response = {
+    id: stored.id,
+    review_status: stored.review_status,
+    learning: stored,
+    next_step: `An approver must promote ${stored.id} (POST /learned-corrections/${stored.id}/approve) before get_learned_corrections returns it.`,
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const learningToolDefinitions = {
+  record_learned_correction: {
+    name: 'record_learned_correction',
+    description: `Record a new learned correction found during a live contract review.
+
+The submission is validated, given the next ID in its category sequence (SEC-004, INS-003, DLP-003, DESIGN-002, METHOD-002)
+and stored as "proposed". An approver promotes it over the HTTP review endpoints; approved learnings are then returned
+by get_learned_corrections alongside the bundled ones.
+
+Record a learning when a reviewer corrects a status the analysis got wrong - describe the issue, the correct
+assessment and the general rule, not the specific contract.`,
+  },
+};
@@ -0,0 +1,223 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import type { KnowledgeBase } from './knowledge-tools.js';
+import { buildClauseMap, formatReference, resolveContractPages, termPattern } from '../utils/contract-text.js';
+import type { ClauseMarker, ContractPage } from '../utils/contract-text.js';
+import type { ParseContractParticularsInput } from '../schemas/tool-schemas.js';
+
+interface Position {
+  page: number;
+  offset: number;
+}
+
+interface ParsedValue {
+  amount?: number;
+  percent?: number;
+  duration?: { value: number; unit: string };
+}
+
+interface Particular {
+  item: string;
+  location: string;
+  schedule: string | null;
+  label: string;
+  value: string | null;
+  parsed: ParsedValue;
+  principles: Array<{ id: number; name: string }>;
+  finance_categories: Array<{ id: number; name: string }>;
+  notes?: string[];
+}
+
+const ITEM_PREFIX = /^\s*item\s+\S+?[.:)]?\s+/i;
+// "Defects Liability Period: 52 weeks", "Security | 5%", table columns left as wide gaps
+const LABEL_SEPARATOR = /\s*[:|\t]\s*|\s{2,}|\s+[–—-]\s+/;
+// Without a separator, the value usually starts at the first number or amount
+const VALUE_START = /\s(?=[$\d]|nil\b|n\/a\b|not applicable\b|none\b)/i;
+const MAX_ITEM_LENGTH = 600;
+const DOLLAR_MENTIONS_CATEGORY = 9;
+
+// Labels that share a search term with a principle but must not be read against it
+const EXCLUDED_MATCHES: Array<{ principleId: number; label: RegExp; unless: RegExp; learning: string }> = [
+  // Warranty schedules are not the DLP
+  { principleId: 17, label: /warrant/i, unless: /defect/i, learning: 'DLP-001' },
+];
+
+const SCHEDULE_KINDS = new Set(['Schedule', 'Annexure', 'Appendix', 'Attachment', 'Exhibit']);
+
+/**
+ * Text from one position to the next, across page breaks if the item runs over
+ */
+function textBetween(pages: ContractPage[], start: Position, end: Position | null): string {
+  const parts: string[] = [];
+  for (const page of pages) {
+    if (page.page < start.page || (end && page.page > end.page)) continue;
+    const from = page.page === start.page ? start.offset : 0;
+    const to = end && page.page === end.page ? end.offset : page.text.length;
+    parts.push(page.text.slice(from, to));
+    if (parts.join('\n').length > MAX_ITEM_LENGTH) break;
+  }
+  return parts.join('\n').trim();
+}
+
+/**
+ * Split an item's text into its label and value
+ */
+function splitItem(text: string): { label: string; value: string | null } {
+  const [firstLine, ...rest] = text.split('\n');
+  const heading = firstLine.replace(ITEM_PREFIX, '').trim();
+  const following = rest.join(' ').replace(/\s+/g, ' ').trim();
+
+  const separator = LABEL_SEPARATOR.exec(heading);
+  if (separator && separator.index > 0) {
+    const value = [heading.slice(separator.index + separator[0].length), following].filter(Boolean).join(' ');
+    return { label: heading.slice(0, separator.index).trim(), value: value.trim() || null };
+  }
+  if (following) {
+    return { label: heading, value: following };
+  }
+  const valueStart = VALUE_START.exec(heading);
+  if (valueStart && valueStart.index > 0) {
+    return { label: heading.slice(0, valueStart.index).trim(), value: heading.slice(valueStart.index).trim() };
+  }
+  return { label: heading, value: null };
+}
+
+/**
+ * The amount, percentage and period stated in a value, where there is one
+ */
+function parseValue(value: string | null): ParsedValue {
+  if (!value) return {};
+  const parsed: ParsedValue = {};
+
+  const amount = /\$\s?(\d[\d,]*(?:\.\d{1,2})?)\s*(million|m|k)?\b/i.exec(value);
+  if (amount) {
+    const multiplier = !amount[2] ? 1 : amount[2].toLowerCase() === 'k' ? 1_000 : 1_000_000;
+    parsed.amount = Number(amount[1].replace(/,/g, '')) * multiplier;
+  }
+
+  const percent = /(\d+(?:\.\d+)?)\s*(?:%|per\s?cent)/i.exec(value);
+  if (percent) parsed.percent = Number(percent[1]);
+
+  const duration = /(\d+)\s*(business days|working days|calendar days|days|weeks|months|years)\b/i.exec(value);
+  if (duration) parsed.duration = { value: Number(duration[1]), unit: duration[2].toLowerCase() };
+
+  return parsed;
+}
+
+function matchesAny(text: string, terms: string[]): boolean {
+  return terms.some(term => termPattern(term).test(text));
+}
+
+/**
+ * Map an item label to the principles and finance categories whose search terms it names
+ */
+function mapItem(kb: KnowledgeBase, label: string, parsed: ParsedValue): Pick<Particular, 'principles' | 'finance_categories'> & { notes: string[] } {
+  const notes: string[] = [];
+
+  const principles = kb.principles.principles
+    .filter(p => matchesAny(label, [...p.search_terms.primary, ...p.search_terms.alternative]))
+    .filter(p => {
+      const excluded = EXCLUDED_MATCHES.find(e => e.principleId === p.id && e.label.test(label) && !e.unless.test(label));
+      if (excluded) notes.push(`Not mapped to principle ${p.id} (${excluded.learning})`);
+      return !excluded;
+    })
+    .map(p => ({ id: p.id, name: p.name }));
+
+  const finance_categories = kb.financeExtraction.extraction_categories
+    .filter(c => c.id === DOLLAR_MENTIONS_CATEGORY
+      ? parsed.amount !== undefined
+      : matchesAny(label, [...c.search_terms.primary, ...c.search_terms.secondary, ...(c.alternative_names ?? [])]))
+    .map(c => ({ id: c.id, name: c.name }));
+
+  return { principles, finance_categories, notes };
+}
+
+/**
+ * Read the Item-numbered contract particulars into label/value pairs mapped
+ * to principles and finance extraction categories
+ */
+export function parseContractParticulars(input: ParseContractParticularsInput): string {
+  const kb = getKnowledgeBase();
+  const pages = resolveContractPages(input);
+  const clauseMap = buildClauseMap(pages);
+
+  const markers: Array<ClauseMarker & { page: number }> = pages.flatMap(page =>
+    (clauseMap.byPage.get(page.page)?.markers ?? []).map(marker => ({ ...marker, page: page.page }))
+  );
+
+  const particulars: Particular[] = [];
+  let schedule: string | null = null;
+
+  markers.forEach((marker, i) => {
+    const { kind, label } = marker.clause;
+    if (SCHEDULE_KINDS.has(kind)) {
+      schedule = `${kind} ${label}`;
+      return;
+    }
+    // Sub-paragraphs of an item, Item 7(a), are part of its value
+    if (kind !== 'Item' || label.includes('(')) return;
+
+    const next = markers.slice(i + 1).find(m => !(m.clause.kind === 'Item' && m.clause.label.startsWith(`${label}(`)));
+    const text = textBetween(pages, marker, next ?? null);
+    const { label: itemLabel, value } = splitItem(text);
+    const parsed = parseValue(value);
+    const { principles, finance_categories, notes } = mapItem(kb, itemLabel, parsed);
+
+    particulars.push({
+      item: label,
+      location: formatReference(marker.page, marker.clause),
+      schedule,
+      label: itemLabel,
+      value,
+      parsed,
+      principles,
+      finance_categories,
+      ...(notes.length > 0 ? { notes } : {}),
+    });
+  });
+
+  const index = (key: 'principles' | 'finance_categories') => {
+    const byId: Record<string, string[]> = {};
+    for (const particular of particulars) {
+      for (const { id } of particular[key]) {
+        (byId[id] ??= []).push(particular.location);
+      }
+    }
+    return byId;
+  };
+
+  const response = {
+    total_pages: pages.length,
+    page_range: `${pages[0].page}-${pages[pages.length - 1].page}`,
+    items_found: particulars.length,
+    particulars,
+    by_principle: index('principles'),
+    by_finance_category: index('finance_categories'),
+    unmapped_items: particulars
+      .filter(p => p.principles.length === 0 && p.finance_categories.length === 0)
+      .map(p => p.location),
+    note: particulars.length === 0
+      ? 'No "Item N" headings found. Contract particulars may be laid out as a table without item numbers - read them from the schedule pages directly.'
+      : 'Mappings come from principle and finance category search terms matched against each item label. Check the value against the clause it overrides before classifying.',
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const particularsToolDefinitions = {
+  parse_contract_particulars: {
+    name: 'parse_contract_particulars',
+    description: `Read the contract particulars - the Item-numbered schedule where the real commercial values sit (e.g. "Page 39, Item 15: 52 weeks") - into label/value pairs.
+
+This tool provides:
+- Each item's "Page X, Item N" location, label, value and the schedule it belongs to
+- The amount, percentage and period parsed from the value
+- The principles the item is relevant to (e.g. Defects Liability Period -> 17, Security -> 15, Liquidated Damages -> 4), matched on principle search terms
+- The finance extraction categories it feeds (e.g. Contract Sum -> 1, Retention -> 5, date for payment claims -> 3)
+- Indexes by principle and by finance category, and the items nothing maps to
+
+INPUT: Contract text with page markers on their own line ('--- Page 12 ---', '[Page 12]') or a pages array.
+
+Warranty items are never mapped to Principle 17 (learning DLP-001).`,
+  },
+};
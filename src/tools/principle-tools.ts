@@ -0,0 +1,170 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import type { KnowledgeBase } from './knowledge-tools.js';
+import { PRINCIPLE_DECISION_TREES } from './decision-tree-tools.js';
+import { getApprovedLearnings } from '../utils/learnings-store.js';
+import type { GetPrincipleInput } from '../schemas/tool-schemas.js';
+
+type Principle = KnowledgeBase['principles']['principles'][number];
+
+// Words in questions like "what's our position on set-off?" that say nothing about the topic
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'clause', 'do', 'does', 'duracube', 'for', 'how', 'in', 'is', 'it',
+  'of', 'on', 'our', 'position', 'principle', 's', 'stance', 'the', 'to', 'we', 'what', 'whats',
+]);
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return phrase.length > 0 && ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * Score how well a free-text query names a principle. Whole-phrase matches on
+ * the name outrank search terms, which outrank single shared words.
+ */
+function matchScore(query: string, principle: Principle): number {
+  const name = normalize(principle.name);
+  if (query === name) return 1000;
+
+  let score = 0;
+  if (containsPhrase(query, name) || containsPhrase(name, query)) score += 50;
+
+  const terms: Array<[string[], number]> = [
+    [principle.search_terms.primary, 30],
+    [principle.search_terms.alternative, 15],
+  ];
+  for (const [list, weight] of terms) {
+    for (const term of list.map(normalize)) {
+      if (query === term) score += weight;
+      else if (containsPhrase(query, term) || containsPhrase(term, query)) score += weight / 2;
+    }
+  }
+
+  const nameWords = new Set(name.split(' '));
+  const termWords = new Set(
+    [...principle.search_terms.primary, ...principle.search_terms.alternative].flatMap(t => normalize(t).split(' '))
+  );
+  for (const word of query.split(' ').filter(w => !STOP_WORDS.has(w))) {
+    if (nameWords.has(word)) score += 5;
+    else if (termWords.has(word)) score += 1;
+  }
+
+  return score;
+}
+
+/**
+ * Resolve a principle ID or free-text name to a principle, with the runners-up
+ * when the name matched more than one
+ */
+function resolvePrinciple(
+  principles: Principle[],
+  reference: number | string
+): { principle: Principle; score: number | null; alternatives: Principle[] } {
+  const asId = typeof reference === 'number' ? reference : /^\d+$/.test(reference) ? Number(reference) : null;
+  if (asId !== null) {
+    const principle = principles.find(p => p.id === asId);
+    if (!principle) {
+      throw new Error(`Unknown principle ID: ${asId}. Valid IDs are 1-${principles.length}`);
+    }
+    return { principle, score: null, alternatives: [] };
+  }
+
+  const query = normalize(String(reference));
+  const ranked = principles
+    .map(principle => ({ principle, score: matchScore(query, principle) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.principle.id - b.principle.id);
+
+  if (ranked.length === 0) {
+    throw new Error(`No principle matches "${reference}". Use a principle ID (1-${principles.length}) or part of its name`);
+  }
+
+  return {
+    principle: ranked[0].principle,
+    score: ranked[0].score,
+    alternatives: ranked.slice(1, 4).map(match => match.principle),
+  };
+}
+
+/**
+ * Everything known about one principle, joined across principles.json,
+ * learnings.json, section-mapping.json and format.json
+ */
+export function getPrinciple(input: GetPrincipleInput): string {
+  const { principles: principlesData, learnings: learningsData, sectionMapping, format } = getKnowledgeBase();
+  const { principle, score, alternatives } = resolvePrinciple(principlesData.principles, input.principle);
+  const id = principle.id;
+
+  const learnings = [...learningsData.learnings, ...getApprovedLearnings()].filter(
+    l => l.principle_id === id || l.interconnected_principles?.includes(id)
+  );
+
+  const treeName = PRINCIPLE_DECISION_TREES[id];
+
+  const group = sectionMapping.section_groups.find(g => g.principles_to_check.includes(id));
+
+  const { section_1, section_2 } = format.excel_structure.section_structure;
+  const section = section_1.principles.includes(id) ? section_1 : section_2;
+  const sectionIndex = section.principles.indexOf(id);
+
+  const response = {
+    principle,
+    matched: typeof input.principle === 'string' && score !== null
+      ? {
+          query: input.principle,
+          also_matched: alternatives.map(p => ({ id: p.id, name: p.name })),
+        }
+      : undefined,
+    learnings,
+    decision_tree: treeName
+      ? { name: treeName, tree: learningsData.decision_trees[treeName] }
+      : null,
+    no_term_assessment: {
+      no_term_risk: principle.compliance_logic.no_term_risk,
+      note: 'Run run_decision_tree with tree no_term_assessment when the contract has no term for this principle',
+    },
+    section_group: group
+      ? {
+          group_id: group.group_id,
+          group_name: group.group_name,
+          typical_sections: group.typical_sections,
+          page_range_hint: group.page_range_hint,
+          search_for: group.principle_details.find(d => d.id === id)?.search_for ?? null,
+          critical_alerts: group.critical_alerts ?? [],
+        }
+      : null,
+    interconnected_principles: principlesData.interconnected_principles.filter(
+      link => link.principle_a === id || link.principle_b === id
+    ),
+    critical_non_negotiables: Object.fromEntries(
+      Object.entries(principlesData.critical_non_negotiables).filter(([, rule]) => rule.related_principles.includes(id))
+    ),
+    schedule_position: {
+      section: section.name,
+      position_in_section: sectionIndex + 1,
+      excel_row: section.column_headers_row + 1 + sectionIndex,
+    },
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const principleToolDefinitions = {
+  get_principle: {
+    name: 'get_principle',
+    description: `Everything known about ONE principle in a single response - use it instead of calling get_duracube_principles, get_learned_corrections and get_section_principle_mapping for a focused question (e.g. "what's our position on set-off?").
+
+Accepts a principle ID (1-28) or a name/topic, matched against principle names and search terms.
+
+Returns:
+- The principle: category, standard, red flags, compliance logic, negotiation positions, departure template
+- Learned corrections for the principle (bundled and approved)
+- Its decision tree, if one exists (15, 16: security; 17: DLP; 25: insurance)
+- Its section group with the search_for hint for large contracts
+- interconnected_principles and critical_non_negotiables that name it
+- Its row in the departure schedule`,
+  },
+};
@@ -0,0 +1,344 @@
+import { checkFinanceExtraction, parseExtraction } from './finance-tools.js';
+import { EXPORT_FIELDS, buildExportRows, builtInExportMapping, paymentDays, resolveExportMapping } from './finance-export-tools.js';
+import { parseCsv } from '../utils/csv.js';
+import { businessNumberDigits, checkAbn } from '../utils/business-numbers.js';
+import type { ExportColumn, FinanceExportFile, ReconcileContractFinancialsInput } from '../schemas/tool-schemas.js';
+
+type ExportRows = ReturnType<typeof buildExportRows>;
+type FieldStatus = 'MATCH' | 'MISMATCH' | 'MISSING_IN_ERP' | 'MISSING_IN_EXTRACTION';
+
+interface FieldComparison {
+  field: string;
+  label: string;
+  status: FieldStatus;
+  extracted: string;
+  erp: string;
+  erp_column: string | null;
+  source: string;
+  note?: string;
+}
+
+type ErpValues = Map<string, { header: string; value: string }>;
+
+interface ReconciledField {
+  field: string;
+  label: string;
+  // Export fields the ERP value may sit in, in order of preference
+  erpFields: string[];
+  // For a value the ERP splits over several columns
+  erpValue?(values: ErpValues): { header: string; value: string } | undefined;
+  extracted(rows: ExportRows): string;
+  source(rows: ExportRows): string;
+  equal(extracted: string, erp: string): boolean;
+}
+
+const amount = (value: string) => {
+  const match = /-?\d[\d,]*(?:\.\d+)?/.exec(value.replace(/\s/g, ''));
+  return match ? Number(match[0].replace(/,/g, '')) : NaN;
+};
+
+const sameNumber = (a: string, b: string) => !Number.isNaN(amount(a)) && Math.abs(amount(a) - amount(b)) < 0.005;
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "Exclusive", "excl. GST", "Plus GST" and "ex" are the same treatment
+function gstTreatment(value: string): string {
+  if (/\b(incl|inclusive|including|inc)\b/i.test(value)) return 'inclusive';
+  if (/\b(excl|exclusive|excluding|ex|plus)\b|\+\s*gst/i.test(value)) return 'exclusive';
+  return normalise(value);
+}
+
+// "ABC Pty. Limited" and "ABC PTY LTD" are the same entity
+function entityName(value: string): string {
+  return normalise(value)
+    .replace(/\bproprietary\b/g, 'pty')
+    .replace(/\blimited\b/g, 'ltd')
+    .replace(/\bcompany\b/g, 'co');
+}
+
+// "25th of each month" and "25" are the same claim date
+function claimDate(value: string): string {
+  const day = /\b(\d{1,2})(?:st|nd|rd|th)?\b/i.exec(value)?.[1];
+  return day ? String(Number(day)) : normalise(value);
+}
+
+// "ContractValue", "Contract Value" and "contract_value" are the same header; "Retention%" is "Retention Percent"
+const headerKey = (header: string) => header.toLowerCase().replace(/%/g, 'percent').replace(/[^a-z0-9]+/g, '');
+
+// Headers ERPs commonly use for the reconciled fields, beyond the mapping and built-in headers
+const ERP_HEADER_ALIASES: Record<string, string[]> = {
+  contract_reference: ['Contract Ref', 'Contract No', 'Contract Number', 'Job', 'Job No', 'Job Number', 'Project Number'],
+  contract_value_amount: ['Contract Value', 'Contract Amount', 'Contract Sum', 'Subcontract Sum', 'Contract Price', 'Order Value'],
+  gst_treatment: ['GST', 'GST Basis', 'Tax Treatment', 'Tax Code'],
+  retention_percentage: ['Retention Percent', 'Retention Rate', 'Retention'],
+  cap_amount: ['Retention Cap', 'Retention Limit', 'Retention Max'],
+  payment_timing: ['Payment Terms', 'Payment Term', 'Terms'],
+  payment_days: ['Payment Days', 'Terms Days', 'Net Days', 'Due Days'],
+  payment_day_basis: ['Payment Basis', 'Terms Basis', 'Due Basis'],
+  claim_due_date: ['Claim Date', 'Claim Day', 'Claim Due Day'],
+  customer_name: ['Customer', 'Client', 'Client Name', 'Debtor', 'Debtor Name', 'Account Name'],
+  customer_abn: ['Client ABN', 'Debtor ABN'],
+};
+
+const first = (...values: string[]) => values.find(Boolean) ?? '';
+const retentionRow = (rows: ExportRows) => rows.retention_register.find(row => row.register_type === 'Retention') ?? {};
+
+const RECONCILED_FIELDS: ReconciledField[] = [
+  {
+    field: 'contract_value',
+    label: 'Contract value',
+    erpFields: ['contract_value_amount', 'contract_value'],
+    extracted: rows => first(rows.contract_master[0].contract_value_amount, rows.contract_master[0].contract_value),
+    source: rows => rows.contract_master[0].contract_value_source,
+    equal: sameNumber,
+  },
+  {
+    field: 'gst_treatment',
+    label: 'GST treatment',
+    erpFields: ['gst_treatment'],
+    extracted: rows => rows.contract_master[0].gst_treatment,
+    source: rows => rows.contract_master[0].contract_value_source,
+    equal: (a, b) => gstTreatment(a) === gstTreatment(b),
+  },
+  {
+    field: 'retention_percentage',
+    label: 'Retention %',
+    erpFields: ['retention_percentage', 'percentage'],
+    extracted: rows => rows.contract_master[0].retention_percentage,
+    source: rows => retentionRow(rows).source ?? '',
+    equal: sameNumber,
+  },
+  {
+    field: 'retention_cap',
+    label: 'Retention cap',
+    erpFields: ['cap_amount', 'cap'],
+    extracted: rows => first(retentionRow(rows).cap_amount ?? '', retentionRow(rows).cap ?? ''),
+    source: rows => retentionRow(rows).source ?? '',
+    equal: sameNumber,
+  },
+  {
+    field: 'payment_terms',
+    label: 'Payment terms',
+    erpFields: ['payment_days', 'payment_timing', 'timing'],
+    erpValue: values => {
+      const days = values.get('payment_days');
+      const basis = values.get('payment_day_basis');
+      return days && basis ? { header: `${days.header}, ${basis.header}`, value: `${days.value} ${basis.value}` } : undefined;
+    },
+    extracted: rows => {
+      const { payment_days, payment_day_basis } = rows.payment_terms[0];
+      return payment_days ? `${payment_days} ${payment_day_basis}` : rows.payment_terms[0].timing;
+    },
+    source: rows => rows.payment_terms[0].source,
+    // 25 business days is not 25 days; a bare number in the ERP is compared on days only
+    equal: (a, b) => {
+      const extracted = paymentDays(a);
+      const erp = /^\d+$/.test(b.trim()) ? { payment_days: b.trim(), payment_day_basis: '' } : paymentDays(b);
+      if (!extracted.payment_days || !erp.payment_days) return normalise(a) === normalise(b);
+      return extracted.payment_days === erp.payment_days
+        && (!erp.payment_day_basis || extracted.payment_day_basis === erp.payment_day_basis);
+    },
+  },
+  {
+    field: 'claim_due_date',
+    label: 'Claim due date',
+    erpFields: ['claim_due_date'],
+    extracted: rows => rows.payment_terms[0].claim_due_date,
+    source: rows => rows.payment_terms[0].source,
+    equal: (a, b) => claimDate(a) === claimDate(b),
+  },
+  {
+    field: 'customer_name',
+    label: 'Customer',
+    erpFields: ['customer_name', 'name'],
+    extracted: rows => rows.contract_master[0].customer_name,
+    source: rows => rows.parties.find(p => p.name === rows.contract_master[0].customer_name)?.source ?? '',
+    equal: (a, b) => entityName(a) === entityName(b),
+  },
+  {
+    field: 'customer_abn',
+    label: 'Customer ABN',
+    erpFields: ['customer_abn', 'abn'],
+    extracted: rows => rows.contract_master[0].customer_abn,
+    source: rows => rows.parties.find(p => p.name === rows.contract_master[0].customer_name)?.source ?? '',
+    equal: (a, b) => businessNumberDigits(a) === businessNumberDigits(b),
+  },
+];
+
+/**
+ * ERP column header -> export field: the columns passed in, then the chosen
+ * mapping, the built-in headers, the field names and common ERP headers,
+ * matched without regard to case, spacing or punctuation
+ */
+function headerFields(mapping: string, erpColumns: Record<string, string> | undefined): Map<string, string> {
+  const known = new Set(Object.values(EXPORT_FIELDS).flat());
+  const fields = new Map<string, string>();
+  const set = (header: string, field: string) => {
+    if (!fields.has(headerKey(header))) fields.set(headerKey(header), field);
+  };
+
+  for (const [header, field] of Object.entries(erpColumns ?? {})) {
+    if (!known.has(field)) {
+      throw new Error(`erp_columns maps '${header}' to unknown field '${field}'. Fields: ${[...known].join(', ')}`);
+    }
+    set(header, field);
+  }
+  const add = (files: Record<FinanceExportFile, ExportColumn[]>) => {
+    for (const columns of Object.values(files)) {
+      for (const column of columns) {
+        if (column.field) set(column.header, column.field);
+      }
+    }
+  };
+  add(resolveExportMapping(mapping).columns);
+  add(builtInExportMapping().files);
+  for (const field of known) set(field, field);
+  for (const [field, headers] of Object.entries(ERP_HEADER_ALIASES)) {
+    for (const header of headers) set(header, field);
+  }
+  return fields;
+}
+
+/**
+ * The ERP record to compare: the only data row, or the one for contract_reference
+ */
+function erpRecord(csv: string, mapping: string, erpColumns: Record<string, string> | undefined, reference: string | undefined) {
+  const [header, ...records] = parseCsv(csv).filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (!header || records.length === 0) {
+    throw new Error('erp_csv needs a header row and at least one record');
+  }
+
+  const fields = headerFields(mapping, erpColumns);
+  const columns = header.map(cell => ({ header: cell.trim(), field: fields.get(headerKey(cell)) ?? null }));
+  const rows = records.map((cells, index) => {
+    const values: ErpValues = new Map();
+    columns.forEach((column, i) => {
+      const value = (cells[i] ?? '').trim();
+      if (column.field && value && !values.has(column.field)) values.set(column.field, { header: column.header, value });
+    });
+    // Line in the CSV, counting the header
+    return { line: index + 2, values };
+  });
+
+  let row = rows[0];
+  if (rows.length > 1) {
+    if (!reference) {
+      throw new Error(`erp_csv has ${rows.length} records - pass contract_reference to choose one`);
+    }
+    const matching = rows.filter(r => r.values.get('contract_reference')?.value === reference);
+    if (matching.length !== 1) {
+      throw new Error(`erp_csv has ${matching.length} records for contract_reference ${reference}`);
+    }
+    row = matching[0];
+  } else if (reference && row.values.has('contract_reference') && row.values.get('contract_reference')!.value !== reference) {
+    throw new Error(`The erp_csv record is for ${row.values.get('contract_reference')!.value}, not ${reference}`);
+  }
+
+  return {
+    row,
+    columns: columns.length,
+    unmatched_columns: columns.filter(column => !column.field).map(column => column.header),
+  };
+}
+
+/**
+ * Compare a finance extraction with the ERP's contract record field by field
+ */
+export function reconcileContractFinancials(input: ReconcileContractFinancialsInput): string {
+  const extraction = parseExtraction(input.extraction);
+  const validation = checkFinanceExtraction(extraction);
+  const { row, columns, unmatched_columns } = erpRecord(input.erp_csv, input.mapping, input.erp_columns, input.contract_reference);
+  const rows = buildExportRows(extraction, input.contract_reference ?? '', validation);
+
+  const warnings: string[] = [];
+  if (!validation.valid) {
+    warnings.push(`The extraction has ${validation.violation_count} validation violation(s) - run validate_finance_extraction; fields it could not read are reported as missing`);
+  }
+
+  const fields: FieldComparison[] = RECONCILED_FIELDS.map(spec => {
+    const erpField = spec.erpFields.find(field => row.values.has(field));
+    const erp = spec.erpValue?.(row.values) ?? (erpField ? row.values.get(erpField)! : null);
+    const extracted = spec.extracted(rows);
+    const comparison = {
+      field: spec.field,
+      label: spec.label,
+      extracted,
+      erp: erp?.value ?? '',
+      erp_column: erp?.header ?? null,
+      source: spec.source(rows),
+    };
+
+    if (!erp) return { ...comparison, status: 'MISSING_IN_ERP' as const };
+    if (!extracted) return { ...comparison, status: 'MISSING_IN_EXTRACTION' as const };
+    return { ...comparison, status: spec.equal(extracted, erp.value) ? 'MATCH' as const : 'MISMATCH' as const };
+  });
+
+  // A mistyped ABN in the ERP is the mismatch that matters most
+  const abn = fields.find(f => f.field === 'customer_abn');
+  if (abn?.erp) {
+    const check = checkAbn(abn.erp);
+    if (!check.valid) abn.note = `In the ERP: ${check.reason}`;
+  }
+  if (abn && !abn.extracted) {
+    const invalid = validation.business_numbers.find(n => n.party === rows.contract_master[0].customer_name && n.abn && !n.abn.valid);
+    if (invalid) abn.note = `Extracted ABN ${invalid.abn!.value} fails the checksum - check the contract`;
+  }
+
+  // A bare number of days in the ERP cannot show that the contract counts them from the end of the month
+  const payment = fields.find(f => f.field === 'payment_terms');
+  if (payment?.status === 'MATCH' && /^\d+$/.test(payment.erp.trim())) {
+    const basis = paymentDays(payment.extracted).payment_day_basis;
+    if (basis !== 'days') payment.note = `The ERP gives ${payment.erp.trim()} days without a basis; the contract counts ${basis} - confirm the ERP payment term`;
+  }
+
+  const count = (status: FieldStatus) => fields.filter(f => f.status === status).length;
+  const compared = count('MATCH') + count('MISMATCH');
+
+  // Nothing compared is not the same as nothing wrong
+  if (unmatched_columns.length === columns) {
+    warnings.push(`None of the ${columns} ERP columns was recognised - pass erp_columns (ERP header -> field) or a mapping whose headers match the ERP export`);
+  }
+  if (compared === 0) {
+    warnings.push('No field was compared: the ERP record and the extraction do not both hold any of the reconciled fields');
+  }
+
+  let note: string;
+  if (compared === 0) {
+    note = 'Nothing was reconciled - do not treat the ERP record as in sync with the contract.';
+  } else if (count('MISMATCH') > 0) {
+    note = 'Check each mismatch against the contract at its source reference before correcting the ERP.';
+  } else {
+    note = `The ${compared} field(s) the ERP record and the extraction both hold agree; ${fields.length - compared} could not be compared.`;
+  }
+
+  const response = {
+    erp_record_line: row.line,
+    mapping: input.mapping,
+    matched: count('MATCH'),
+    mismatched: count('MISMATCH'),
+    not_compared: fields.length - compared,
+    mismatches: fields.filter(f => f.status === 'MISMATCH').map(f => f.field),
+    fields,
+    unmatched_columns,
+    warnings,
+    note,
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const reconciliationToolDefinitions = {
+  reconcile_contract_financials: {
+    name: 'reconcile_contract_financials',
+    description: `Reconcile a finance extraction against the contract record exported from the ERP, field by field.
+
+This tool provides:
+- MATCH / MISMATCH for contract value, GST treatment, retention %, retention cap, payment terms, claim due date, customer and customer ABN
+- The extracted value, the ERP value and column, and the contract source reference ("Page X, Clause Y") for each
+- An ERP ABN that fails the checksum is flagged even when it looks close
+- Fields missing on either side, and ERP columns that could not be matched
+
+ERP columns are matched by erp_columns, then the headers of a stored export mapping (default: the export_finance_extraction headers such as "Contract Value Amount"), then common ERP headers ("ContractValue", "CustomerABN", "PaymentTerms", "Retention%"), ignoring case, spaces and punctuation. When no field could be compared the response says so in warnings.`,
+  },
+};
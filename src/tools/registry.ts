@@ -0,0 +1,203 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import {
+  getDuracubePrinciples,
+  getLearnedCorrections,
+  getOutputFormat,
+  getFinanceExtractionGuide,
+  getSectionPrincipleMapping,
+  toolDefinitions,
+} from './knowledge-tools.js';
+import { scanContractText, indexContractStructure, contractScanToolDefinitions } from './contract-scan-tools.js';
+import {
+  validateDepartureSchedule,
+  generateDepartureScheduleXlsx,
+  workbookToolContent,
+  departureScheduleToolDefinitions,
+} from './departure-schedule-tools.js';
+import { assessPrinciple, complianceToolDefinitions } from './compliance-tools.js';
+import { runDecisionTree, decisionTreeToolDefinitions } from './decision-tree-tools.js';
+import { checkFindingConsistency, consistencyToolDefinitions } from './consistency-tools.js';
+import { recordLearnedCorrection, learningToolDefinitions } from './learning-tools.js';
+import { getPrinciple, principleToolDefinitions } from './principle-tools.js';
+import { searchKnowledge, searchToolDefinitions } from './search-tools.js';
+import { draftDeparture, draftingToolDefinitions } from './drafting-tools.js';
+import { parseContractParticulars, particularsToolDefinitions } from './particulars-tools.js';
+import { extractDefinedTerms, definedTermsToolDefinitions } from './defined-terms-tools.js';
+import { extractDollarValues, validateFinanceExtraction, financeToolDefinitions } from './finance-tools.js';
+import { exportFinanceExtraction, financeExportToolDefinitions } from './finance-export-tools.js';
+import { reconcileContractFinancials, reconciliationToolDefinitions } from './reconciliation-tools.js';
+import {
+  GetPrinciplesSchema,
+  GetLearnedCorrectionsSchema,
+  GetOutputFormatSchema,
+  GetFinanceExtractionGuideSchema,
+  GetSectionPrincipleMappingSchema,
+  ScanContractTextSchema,
+  ValidateDepartureScheduleSchema,
+  GenerateDepartureScheduleXlsxSchema,
+  AssessPrincipleSchema,
+  RunDecisionTreeSchema,
+  CheckFindingConsistencySchema,
+  RecordLearnedCorrectionSchema,
+  GetPrincipleSchema,
+  SearchKnowledgeSchema,
+  DraftDepartureSchema,
+  IndexContractStructureSchema,
+  ParseContractParticularsSchema,
+  ExtractDefinedTermsSchema,
+  ValidateFinanceExtractionSchema,
+  ExtractDollarValuesSchema,
+  ExportFinanceExtractionSchema,
+  ReconcileContractFinancialsSchema,
+} from '../schemas/tool-schemas.js';
+
+/**
+ * What a tool handler returns: a JSON string (sent as one text block)
+ * or ready-made MCP content for tools that return files
+ */
+export type ToolOutput = string | { content: CallToolResult['content'] };
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+}
+
+export interface RegisteredTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  // HTTP method for the /tools/<name> REST route; false when server.ts serves it itself
+  rest: 'get' | 'post' | false;
+  execute(args: unknown): Promise<ToolOutput>;
+}
+
+function defineTool<S extends z.ZodTypeAny>(
+  definition: ToolDefinition,
+  schema: S,
+  handler: (args: z.output<S>) => ToolOutput | Promise<ToolOutput>,
+  options: { rest?: RegisteredTool['rest'] } = {}
+): RegisteredTool {
+  // MCP clients expect a plain object schema without $schema or $ref indirection.
+  // Unknown keys are stripped by zod, so they are not declared as rejected either.
+  const { $schema, ...inputSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    removeAdditionalStrategy: 'strict',
+    allowedAdditionalProperties: undefined,
+  }) as Record<string, unknown>;
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema,
+    rest: options.rest ?? 'post',
+    execute: async (args: unknown) => handler(schema.parse(args ?? {})),
+  };
+}
+
+/**
+ * Every tool the server exposes, in listing order. Stdio, HTTP and the
+ * /tools/* REST routes are all built from this list.
+ */
+export const toolRegistry: RegisteredTool[] = [
+  defineTool(toolDefinitions.get_duracube_principles, GetPrinciplesSchema, getDuracubePrinciples),
+  defineTool(toolDefinitions.get_learned_corrections, GetLearnedCorrectionsSchema, getLearnedCorrections),
+  defineTool(toolDefinitions.get_output_format, GetOutputFormatSchema, () => getOutputFormat(), { rest: 'get' }),
+  defineTool(toolDefinitions.get_finance_extraction_guide, GetFinanceExtractionGuideSchema, getFinanceExtractionGuide),
+  defineTool(toolDefinitions.get_section_principle_mapping, GetSectionPrincipleMappingSchema, getSectionPrincipleMapping),
+  defineTool(principleToolDefinitions.get_principle, GetPrincipleSchema, getPrinciple),
+  defineTool(searchToolDefinitions.search_knowledge, SearchKnowledgeSchema, searchKnowledge),
+  defineTool(contractScanToolDefinitions.index_contract_structure, IndexContractStructureSchema, indexContractStructure),
+  defineTool(contractScanToolDefinitions.scan_contract_text, ScanContractTextSchema, scanContractText),
+  defineTool(particularsToolDefinitions.parse_contract_particulars, ParseContractParticularsSchema, parseContractParticulars),
+  defineTool(definedTermsToolDefinitions.extract_defined_terms, ExtractDefinedTermsSchema, extractDefinedTerms),
+  defineTool(departureScheduleToolDefinitions.validate_departure_schedule, ValidateDepartureScheduleSchema, validateDepartureSchedule),
+  // The REST route streams the workbook as a download, so server.ts defines it
+  defineTool(
+    departureScheduleToolDefinitions.generate_departure_schedule_xlsx,
+    GenerateDepartureScheduleXlsxSchema,
+    async args => ({ content: workbookToolContent(await generateDepartureScheduleXlsx(args)) }),
+    { rest: false }
+  ),
+  defineTool(complianceToolDefinitions.assess_principle, AssessPrincipleSchema, assessPrinciple),
+  defineTool(decisionTreeToolDefinitions.run_decision_tree, RunDecisionTreeSchema, runDecisionTree),
+  defineTool(consistencyToolDefinitions.check_finding_consistency, CheckFindingConsistencySchema, checkFindingConsistency),
+  defineTool(learningToolDefinitions.record_learned_correction, RecordLearnedCorrectionSchema, recordLearnedCorrection),
+  defineTool(draftingToolDefinitions.draft_departure, DraftDepartureSchema, draftDeparture),
+  defineTool(financeToolDefinitions.extract_dollar_values, ExtractDollarValuesSchema, extractDollarValues),
+  defineTool(financeToolDefinitions.validate_finance_extraction, ValidateFinanceExtractionSchema, validateFinanceExtraction),
+  // The REST route can stream a single file as a download, so server.ts defines it
+  defineTool(financeExportToolDefinitions.export_finance_extraction, ExportFinanceExtractionSchema, exportFinanceExtraction, { rest: false }),
+  defineTool(reconciliationToolDefinitions.reconcile_contract_financials, ReconcileContractFinancialsSchema, reconcileContractFinancials),
+];
+
+export function getTool(name: string): RegisteredTool | undefined {
+  return toolRegistry.find(tool => tool.name === name);
+}
+
+/**
+ * Tool list in the shape of an MCP tools/list result
+ */
+export function listTools(): Array<Pick<RegisteredTool, 'name' | 'description' | 'inputSchema'>> {
+  return toolRegistry.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+}
+
+/**
+ * Run a tool and wrap its output as an MCP tools/call result
+ */
+export async function callTool(name: string, args: unknown): Promise<CallToolResult> {
+  const tool = getTool(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  const output = await tool.execute(args);
+  if (typeof output === 'string') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: output,
+        },
+      ],
+    };
+  }
+  return { content: output.content };
+}
+
+/**
+ * Register tools/list and tools/call handlers on an SDK server
+ */
+export function registerTools(server: Server): void {
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: listTools(),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      return await callTool(name, args);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing tool ${name}: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+}
@@ -0,0 +1,164 @@
+import { getKnowledgeBase } from './knowledge-tools.js';
+import type { KnowledgeBase } from './knowledge-tools.js';
+import { Bm25Index, tokenize } from '../utils/bm25.js';
+import type { KnowledgeSource, SearchKnowledgeInput } from '../schemas/tool-schemas.js';
+
+interface Fragment {
+  source: KnowledgeSource;
+  path: string;
+  context: string | null;
+  resource: string | null;
+  text: string;
+}
+
+interface SearchIndex {
+  index: Bm25Index;
+  fragments: Fragment[];
+}
+
+const SOURCE_FILES: Record<KnowledgeSource, { file: string; key: keyof KnowledgeBase }> = {
+  principles: { file: 'principles.json', key: 'principles' },
+  learnings: { file: 'learnings.json', key: 'learnings' },
+  format: { file: 'format.json', key: 'format' },
+  finance_extraction: { file: 'finance-extraction.json', key: 'financeExtraction' },
+  section_mapping: { file: 'section-mapping.json', key: 'sectionMapping' },
+};
+
+type Item = Record<string, unknown>;
+
+// Array entries that are addressable records: fragments inside them are labelled and linked to their resource
+const ENTITIES: Array<{ source: KnowledgeSource; array: string; label(item: Item): string; resource: string }> = [
+  { source: 'principles', array: 'principles', label: item => `Principle ${item.id}: ${item.name}`, resource: 'principles' },
+  { source: 'learnings', array: 'learnings', label: item => `Learning ${item.id}`, resource: 'learnings' },
+  { source: 'section_mapping', array: 'section_groups', label: item => `Group ${item.group_id}: ${item.group_name}`, resource: 'section-groups' },
+  { source: 'finance_extraction', array: 'extraction_categories', label: item => `Finance category ${item.id}: ${item.name}`, resource: 'finance/categories' },
+];
+
+const SNIPPET_LENGTH = 320;
+
+// Each knowledge base object gets its own index, so a reload is picked up on the next search
+const indexCache = new WeakMap<KnowledgeBase, SearchIndex>();
+
+/**
+ * Split every knowledge file into its string leaves, each with a path such as
+ * principles[23].red_flags[0] and the record it belongs to
+ */
+function collectFragments(kb: KnowledgeBase): Fragment[] {
+  const fragments: Fragment[] = [];
+
+  for (const [source, { key }] of Object.entries(SOURCE_FILES) as Array<[KnowledgeSource, typeof SOURCE_FILES[KnowledgeSource]]>) {
+    const walk = (value: unknown, path: string, context: string | null, resource: string | null): void => {
+      if (typeof value === 'string') {
+        if (value.trim()) fragments.push({ source, path, context, resource, text: value });
+      } else if (Array.isArray(value)) {
+        const entity = ENTITIES.find(e => e.source === source && e.array === path);
+        value.forEach((item, i) => {
+          const isRecord = entity && item && typeof item === 'object';
+          const id = isRecord ? (item as Item).id ?? (item as Item).group_id : undefined;
+          walk(
+            item,
+            `${path}[${i}]`,
+            isRecord ? entity.label(item as Item) : context,
+            isRecord && id !== undefined ? `duracube://${entity.resource}/${id}` : resource
+          );
+        });
+      } else if (value && typeof value === 'object') {
+        for (const [childKey, child] of Object.entries(value)) {
+          walk(child, path ? `${path}.${childKey}` : childKey, context, resource);
+        }
+      }
+    };
+    walk(kb[key], '', null, null);
+  }
+
+  return fragments;
+}
+
+function buildIndex(kb: KnowledgeBase): SearchIndex {
+  const fragments = collectFragments(kb);
+  const index = new Bm25Index();
+  for (const fragment of fragments) {
+    // The key often names the concept (terminology.subcontractor_statement), so index it with the text
+    const key = fragment.path.split('.').pop()?.replace(/\[\d+\]/g, '').replace(/_/g, ' ') ?? '';
+    index.add(`${key} ${fragment.text}`);
+  }
+  return { index, fragments };
+}
+
+function getSearchIndex(): SearchIndex {
+  const kb = getKnowledgeBase();
+  let searchIndex = indexCache.get(kb);
+  if (!searchIndex) {
+    searchIndex = buildIndex(kb);
+    indexCache.set(kb, searchIndex);
+  }
+  return searchIndex;
+}
+
+/**
+ * Cut long fragments down to a window around the first query term
+ */
+function snippet(text: string, terms: string[]): string {
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, Math.min(first - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Ranked full-text search over every string in the five knowledge files
+ */
+export function searchKnowledge(input: SearchKnowledgeInput): string {
+  const { query, limit, sources } = input;
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    throw new Error('Query has no searchable words');
+  }
+
+  const { index, fragments } = getSearchIndex();
+  const phrase = terms.join(' ');
+
+  const ranked = index
+    .search(query)
+    .filter(match => !sources || sources.includes(fragments[match.index].source))
+    .map(match => {
+      const fragment = fragments[match.index];
+      // Fragments containing the whole query as a phrase outrank scattered word matches
+      const isPhraseMatch = terms.length > 1 && tokenize(fragment.text).join(' ').includes(phrase);
+      return { fragment, score: isPhraseMatch ? match.score * 1.5 : match.score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const response = {
+    query,
+    total_matches: ranked.length,
+    fragments_indexed: fragments.length,
+    results: ranked.slice(0, limit).map(({ fragment, score }) => ({
+      score: Math.round(score * 1000) / 1000,
+      source: SOURCE_FILES[fragment.source].file,
+      path: fragment.path,
+      context: fragment.context,
+      resource: fragment.resource,
+      text: snippet(fragment.text, terms),
+    })),
+  };
+
+  return JSON.stringify(response, null, 2);
+}
+
+// Export tool definitions for MCP registration
+export const searchToolDefinitions = {
+  search_knowledge: {
+    name: 'search_knowledge',
+    description: `Full-text search across all five knowledge files when you know the concept but not which tool holds it (e.g. "on-demand guarantee", "subcontractor statement").
+
+Covers principle standards, red flags and compliance logic, learned corrections, finance extraction rules, edge-case handling, domain terminology, section mapping and output format.
+
+Returns the best matching fragments ranked by relevance (BM25), each with its source file, JSON path, the principle, learning, group or finance category it belongs to, and a duracube:// resource URI to read the full record. Filter with sources to search specific files.`,
+  },
+};
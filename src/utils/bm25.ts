@@ -0,0 +1,88 @@
+/**
+ * Small in-memory BM25 index for ranking short text fragments.
+ *
+ * Documents are identified by the order they were added. The index is built
+ * once and searched many times; rebuild it when the underlying text changes.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'if', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+]);
+
+// Okapi BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercase, split on anything that is not a letter or digit, drop stop words
+ * and fold simple plurals so "guarantees" matches "guarantee"
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+export interface Bm25Match {
+  index: number;
+  score: number;
+}
+
+export class Bm25Index {
+  private readonly termFrequencies: Array<Map<string, number>> = [];
+  private readonly lengths: number[] = [];
+  private readonly documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  add(text: string): number {
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    for (const token of frequencies.keys()) {
+      this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1);
+    }
+
+    this.termFrequencies.push(frequencies);
+    this.lengths.push(tokens.length);
+    this.totalLength += tokens.length;
+    return this.termFrequencies.length - 1;
+  }
+
+  get size(): number {
+    return this.termFrequencies.length;
+  }
+
+  /**
+   * Score every document containing at least one query term, best first
+   */
+  search(query: string): Bm25Match[] {
+    const terms = [...new Set(tokenize(query))];
+    const count = this.size;
+    if (terms.length === 0 || count === 0) return [];
+
+    const averageLength = this.totalLength / count;
+    const matches: Bm25Match[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const frequencies = this.termFrequencies[index];
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (this.lengths[index] / averageLength)));
+      }
+      if (score > 0) {
+        matches.push({ index, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+}
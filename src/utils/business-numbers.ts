@@ -0,0 +1,53 @@
+/**
+ * Australian Business Number and Australian Company Number checks, using the
+ * weighted checksums the ABR and ASIC publish.
+ */
+
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+const ACN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 1];
+
+export interface BusinessNumberCheck {
+  value: string;
+  digits: string;
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Digits only: "51 824 753 556" and "51-824-753-556" are the same ABN
+ */
+export function businessNumberDigits(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+/**
+ * ABN: subtract 1 from the first digit, weight the 11 digits and the sum
+ * must divide by 89
+ */
+export function checkAbn(value: string): BusinessNumberCheck {
+  const digits = businessNumberDigits(value);
+  if (!/^\d{11}$/.test(digits)) {
+    return { value, digits, valid: false, reason: `ABN must be 11 digits, got ${digits.length} characters` };
+  }
+
+  const sum = [...digits].reduce((total, digit, i) => total + (Number(digit) - (i === 0 ? 1 : 0)) * ABN_WEIGHTS[i], 0);
+  return sum % 89 === 0
+    ? { value, digits, valid: true }
+    : { value, digits, valid: false, reason: 'ABN fails the checksum - a digit is mistyped or transposed' };
+}
+
+/**
+ * ACN: weight the first 8 digits; the 9th is the complement of the sum mod 10
+ */
+export function checkAcn(value: string): BusinessNumberCheck {
+  const digits = businessNumberDigits(value);
+  if (!/^\d{9}$/.test(digits)) {
+    return { value, digits, valid: false, reason: `ACN must be 9 digits, got ${digits.length} characters` };
+  }
+
+  const sum = ACN_WEIGHTS.reduce((total, weight, i) => total + Number(digits[i]) * weight, 0);
+  const check = (10 - (sum % 10)) % 10;
+  return check === Number(digits[8])
+    ? { value, digits, valid: true }
+    : { value, digits, valid: false, reason: 'ACN fails the check digit - a digit is mistyped or transposed' };
+}
@@ -0,0 +1,340 @@
+/**
+ * Helpers for working with contract text that has been extracted page by page.
+ *
+ * Contract text reaches the server either as a single string with page markers
+ * ("--- Page 12 ---", "[Page 12]", form feeds) or as an explicit array of pages.
+ * Everything downstream works on the normalised ContractPage list.
+ */
+
+export interface ContractPage {
+  page: number;
+  text: string;
+}
+
+export interface ContractTextInput {
+  contract_text?: string;
+  pages?: ContractPage[];
+}
+
+export interface ClauseRef {
+  kind: 'Clause' | 'Item' | 'Schedule' | 'Annexure' | 'Appendix' | 'Attachment' | 'Exhibit';
+  label: string;
+}
+
+export interface ClauseMarker {
+  offset: number;
+  clause: ClauseRef;
+  // Heading text after the number, e.g. "Security" for "15.1 Security"
+  title: string;
+}
+
+export interface ClauseMap {
+  byPage: Map<number, { carried: ClauseRef | null; markers: ClauseMarker[] }>;
+}
+
+// Page markers are matched on their own line
+const PAGE_MARKER_PATTERNS: RegExp[] = [
+  /^\s*-{2,}\s*page\s+(\d+)\s*(?:of\s+\d+\s*)?-{2,}\s*$/i,
+  /^\s*={2,}\s*page\s+(\d+)\s*(?:of\s+\d+\s*)?={2,}\s*$/i,
+  /^\s*\[\s*page\s+(\d+)\s*\]\s*$/i,
+  /^\s*<<\s*page\s+(\d+)\s*>>\s*$/i,
+  /^\s*<page(?:\s+number=["']?|\s+)(\d+)["']?\s*\/?>\s*$/i,
+];
+
+/**
+ * Split a single contract string into pages using explicit page markers.
+ * Falls back to form-feed separators, and finally to a single page.
+ */
+export function splitContractText(contractText: string): ContractPage[] {
+  const lines = contractText.split(/\r?\n/);
+  const pages: ContractPage[] = [];
+  let current: { page: number; lines: string[] } | null = null;
+  const preamble: string[] = [];
+
+  for (const line of lines) {
+    const pageNumber = matchPageMarker(line);
+    if (pageNumber !== null) {
+      if (current) {
+        pages.push({ page: current.page, text: current.lines.join('\n') });
+      }
+      current = { page: pageNumber, lines: [] };
+      continue;
+    }
+    if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  if (current) {
+    pages.push({ page: current.page, text: current.lines.join('\n') });
+    // Text before the first marker is treated as part of the first page
+    const leading = preamble.join('\n').trim();
+    if (leading) {
+      pages[0].text = `${leading}\n${pages[0].text}`;
+    }
+    return pages;
+  }
+
+  if (contractText.includes('\f')) {
+    return contractText.split('\f').map((text, index) => ({ page: index + 1, text }));
+  }
+
+  return [{ page: 1, text: contractText }];
+}
+
+function matchPageMarker(line: string): number | null {
+  for (const pattern of PAGE_MARKER_PATTERNS) {
+    const match = line.match(pattern);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalise tool input into an ordered page list.
+ * Throws if neither contract_text nor pages is supplied.
+ */
+export function resolveContractPages(input: ContractTextInput): ContractPage[] {
+  if (input.pages && input.pages.length > 0) {
+    return [...input.pages].sort((a, b) => a.page - b.page);
+  }
+  if (input.contract_text && input.contract_text.trim()) {
+    return splitContractText(input.contract_text);
+  }
+  throw new Error('Provide either contract_text (with page markers) or a non-empty pages array');
+}
+
+const SCHEDULE_HEADING = /^(schedule|annexure|annex|appendix|attachment|exhibit)\s+([A-Z0-9]{1,4})\b/i;
+const ITEM_HEADING = /^item\s+(\d{1,3}[A-Za-z]?)\b/i;
+const EXPLICIT_CLAUSE_HEADING = /^(?:clause|section)\s+(\d{1,3}(?:\.\d{1,3}){0,4})((?:\s*\([a-z0-9]{1,5}\))*)/i;
+const NUMBERED_HEADING = /^(\d{1,3}(?:\.\d{1,3}){0,4})\.?((?:\s*\([a-z0-9]{1,5}\))*)\s+(?=[A-Z("'“])/;
+const SUBPARAGRAPH_HEADING = /^\(([a-z]{1,2}|[ivxlc]{1,6}|\d{1,2}|[A-Z])\)\s+/;
+
+type SubKind = 'alpha' | 'roman' | 'number' | 'upper';
+
+interface ClauseState {
+  kind: ClauseRef['kind'];
+  base: string;
+  subs: Array<{ kind: SubKind; token: string }>;
+}
+
+function classifySub(token: string, subs: ClauseState['subs']): SubKind {
+  if (/^\d+$/.test(token)) return 'number';
+  if (/^[A-Z]$/.test(token)) return 'upper';
+  if (/^[ivxlc]+$/.test(token)) {
+    const lastAlpha = [...subs].reverse().find(s => s.kind === 'alpha');
+    const followsAlpha = lastAlpha && token.length === 1
+      && token.charCodeAt(0) === lastAlpha.token.charCodeAt(lastAlpha.token.length - 1) + 1;
+    const hasRoman = subs.some(s => s.kind === 'roman');
+    if (!followsAlpha && (hasRoman || lastAlpha || token.length > 1)) {
+      return 'roman';
+    }
+  }
+  return 'alpha';
+}
+
+function pushSub(state: ClauseState, token: string): void {
+  const kind = classifySub(token, state.subs);
+  const existing = state.subs.findIndex(s => s.kind === kind);
+  if (existing >= 0) {
+    state.subs = state.subs.slice(0, existing);
+  }
+  state.subs.push({ kind, token });
+}
+
+function parseSubTokens(raw: string): string[] {
+  return [...raw.matchAll(/\(([a-z0-9]{1,5})\)/gi)].map(m => m[1]);
+}
+
+function stateToRef(state: ClauseState): ClauseRef {
+  return {
+    kind: state.kind,
+    label: state.base + state.subs.map(s => `(${s.token})`).join(''),
+  };
+}
+
+/**
+ * Detect the clause heading (if any) that a single line opens.
+ * Returns the new clause state, or null when the line is body text.
+ */
+function detectHeading(line: string, previous: ClauseState | null): ClauseState | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  const schedule = trimmed.match(SCHEDULE_HEADING);
+  if (schedule) {
+    const word = schedule[1].toLowerCase();
+    const kind: ClauseRef['kind'] =
+      word === 'schedule' ? 'Schedule'
+        : word === 'appendix' ? 'Appendix'
+          : word === 'attachment' ? 'Attachment'
+            : word === 'exhibit' ? 'Exhibit'
+              : 'Annexure';
+    return { kind, base: schedule[2].toUpperCase(), subs: [] };
+  }
+
+  const item = trimmed.match(ITEM_HEADING);
+  if (item) {
+    return { kind: 'Item', base: item[1], subs: [] };
+  }
+
+  const numbered = trimmed.match(EXPLICIT_CLAUSE_HEADING) || trimmed.match(NUMBERED_HEADING);
+  if (numbered) {
+    const state: ClauseState = { kind: 'Clause', base: numbered[1], subs: [] };
+    for (const token of parseSubTokens(numbered[2] || '')) {
+      pushSub(state, token);
+    }
+    return state;
+  }
+
+  const sub = trimmed.match(SUBPARAGRAPH_HEADING);
+  if (sub && previous && (previous.kind === 'Clause' || previous.kind === 'Item')) {
+    const state: ClauseState = { ...previous, subs: [...previous.subs] };
+    pushSub(state, sub[1]);
+    return state;
+  }
+
+  return null;
+}
+
+const TITLE_LENGTH = 80;
+
+/**
+ * The words of a heading line after its number or label
+ */
+function headingTitle(line: string): string {
+  const trimmed = line.trim();
+  const prefix = [SCHEDULE_HEADING, ITEM_HEADING, EXPLICIT_CLAUSE_HEADING, NUMBERED_HEADING, SUBPARAGRAPH_HEADING]
+    .map(pattern => trimmed.match(pattern))
+    .find(match => match !== null);
+  const title = trimmed
+    .slice(prefix ? prefix[0].length : 0)
+    .replace(/^[\s.:–—-]+/, '')
+    .replace(/\s+/g, ' ');
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH).trimEnd()}…` : title;
+}
+
+/**
+ * Walk every page line by line and record where each clause heading starts,
+ * carrying the open clause across page breaks.
+ */
+export function buildClauseMap(pages: ContractPage[]): ClauseMap {
+  const byPage: ClauseMap['byPage'] = new Map();
+  let state: ClauseState | null = null;
+
+  for (const page of pages) {
+    const carried = state ? stateToRef(state) : null;
+    const markers: ClauseMarker[] = [];
+    let offset = 0;
+
+    for (const line of page.text.split('\n')) {
+      const heading = detectHeading(line, state);
+      if (heading) {
+        state = heading;
+        markers.push({ offset, clause: stateToRef(state), title: headingTitle(line) });
+      }
+      offset += line.length + 1;
+    }
+
+    byPage.set(page.page, { carried, markers });
+  }
+
+  return { byPage };
+}
+
+/**
+ * Find the clause that is open at a character offset within a page
+ */
+export function clauseAt(map: ClauseMap, page: number, offset: number): ClauseRef | null {
+  const entry = map.byPage.get(page);
+  if (!entry) return null;
+
+  let clause = entry.carried;
+  for (const marker of entry.markers) {
+    if (marker.offset > offset) break;
+    clause = marker.clause;
+  }
+  return clause;
+}
+
+/**
+ * Format a location the way the departure schedule requires: "Page 5, Clause 8.1"
+ */
+export function formatReference(page: number, clause: ClauseRef | null): string {
+  if (!clause) {
+    return `Page ${page}, Clause not identified`;
+  }
+  return `Page ${page}, ${clause.kind} ${clause.label}`;
+}
+
+/**
+ * Collapse whitespace and cut a window of text around a match
+ */
+export function snippetAround(text: string, start: number, end: number, maxChars: number): string {
+  const padding = Math.max(0, Math.floor((maxChars - (end - start)) / 2));
+  const from = Math.max(0, start - padding);
+  const to = Math.min(text.length, end + padding);
+  const body = text.slice(from, to).replace(/\s+/g, ' ').trim();
+  return `${from > 0 ? '…' : ''}${body}${to < text.length ? '…' : ''}`;
+}
+
+/**
+ * Build a case-insensitive regex for a search term that tolerates
+ * line breaks and hyphen/space variation ("set-off" vs "set off")
+ */
+export function termPattern(term: string): RegExp {
+  const escaped = term
+    .trim()
+    .split(/[\s-]+/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s\\-]*');
+  return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, 'gi');
+}
+
+/**
+ * Split page text into sentence-like spans with their offsets.
+ * Paragraph breaks, clause headings and sentence terminators followed by
+ * whitespace end a span; single line breaks from PDF wrapping do not.
+ */
+export function sentenceSpans(text: string): Array<{ start: number; end: number; text: string }> {
+  const spans: Array<{ start: number; end: number; text: string }> = [];
+  const pattern = /(?:[^.;!?]|[.;!?](?!\s))+[.;!?]?/g;
+
+  // Group lines into blocks so a span never runs across a heading
+  const blocks: Array<{ start: number; text: string }> = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const last = blocks[blocks.length - 1];
+    if (!last || !line.trim() || !last.text.trim() || isHeadingLine(line)) {
+      blocks.push({ start: offset, text: line });
+    } else {
+      last.text += `\n${line}`;
+    }
+    offset += line.length + 1;
+  }
+
+  for (const block of blocks) {
+    for (const match of block.text.matchAll(pattern)) {
+      const raw = match[0];
+      if (!raw.trim()) continue;
+      const leading = raw.length - raw.trimStart().length;
+      const start = block.start + (match.index ?? 0) + leading;
+      spans.push({ start, end: start + raw.trim().length, text: raw.replace(/\s+/g, ' ').trim() });
+    }
+  }
+
+  return spans;
+}
+
+function isHeadingLine(line: string): boolean {
+  const trimmed = line.trim();
+  return SCHEDULE_HEADING.test(trimmed)
+    || ITEM_HEADING.test(trimmed)
+    || EXPLICIT_CLAUSE_HEADING.test(trimmed)
+    || NUMBERED_HEADING.test(trimmed)
+    || SUBPARAGRAPH_HEADING.test(trimmed);
+}
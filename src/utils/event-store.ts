@@ -0,0 +1,65 @@
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+// Enough to cover a reconnect without letting a long session grow without bound
+const MAX_EVENTS_PER_STREAM = 500;
+
+interface StoredEvent {
+  id: EventId;
+  seq: number;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store for one MCP session, so a client that reconnects with
+ * Last-Event-ID receives the messages it missed on that stream.
+ * Stream IDs are only unique within a session, hence one store per session.
+ */
+export class SessionEventStore implements EventStore {
+  private seq = 0;
+  private readonly streams = new Map<StreamId, StoredEvent[]>();
+  private readonly eventStreams = new Map<EventId, StreamId>();
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const seq = ++this.seq;
+    const id = String(seq);
+
+    let events = this.streams.get(streamId);
+    if (!events) {
+      events = [];
+      this.streams.set(streamId, events);
+    }
+    events.push({ id, seq, message });
+    this.eventStreams.set(id, streamId);
+
+    if (events.length > MAX_EVENTS_PER_STREAM) {
+      const dropped = events.splice(0, events.length - MAX_EVENTS_PER_STREAM);
+      dropped.forEach(event => this.eventStreams.delete(event.id));
+    }
+
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.eventStreams.get(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (streamId === undefined) {
+      throw new Error(`Unknown or expired event ID: ${lastEventId}`);
+    }
+
+    const lastSeq = Number(lastEventId);
+    for (const event of this.streams.get(streamId) ?? []) {
+      if (event.seq > lastSeq) {
+        await send(event.id, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
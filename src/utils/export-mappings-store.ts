@@ -0,0 +1,85 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { ExportMapping } from '../schemas/tool-schemas.js';
+
+export interface StoredExportMapping extends ExportMapping {
+  name: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+interface ExportMappingsStoreFile {
+  mappings: StoredExportMapping[];
+}
+
+/**
+ * Location of the saved ERP column mappings. Like the learnings store it lives
+ * outside the build so mappings survive redeploys when the path is on a volume.
+ */
+export function exportMappingsStorePath(): string {
+  return resolve(process.env.EXPORT_MAPPINGS_PATH || 'data/export-mappings.json');
+}
+
+function readStore(): ExportMappingsStoreFile {
+  const path = exportMappingsStorePath();
+  if (!existsSync(path)) {
+    return { mappings: [] };
+  }
+
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<ExportMappingsStoreFile>;
+  if (!Array.isArray(parsed.mappings)) {
+    throw new Error(`Export mappings store is corrupt: ${path} has no mappings array`);
+  }
+  return { mappings: parsed.mappings };
+}
+
+function writeStore(store: ExportMappingsStoreFile): void {
+  const path = exportMappingsStorePath();
+  mkdirSync(dirname(path), { recursive: true });
+
+  // Write then rename so a crash never leaves a half-written store
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(store, null, 2));
+  renameSync(tempPath, path);
+}
+
+export function listExportMappings(): StoredExportMapping[] {
+  return readStore().mappings;
+}
+
+export function getExportMapping(name: string): StoredExportMapping | undefined {
+  return readStore().mappings.find(m => m.name === name);
+}
+
+/**
+ * Create or replace a mapping by name
+ */
+export function saveExportMapping(name: string, mapping: ExportMapping, updatedBy: string | null): StoredExportMapping {
+  const store = readStore();
+  const stored: StoredExportMapping = {
+    name,
+    ...mapping,
+    updated_by: updatedBy,
+    updated_at: new Date().toISOString(),
+  };
+
+  const index = store.mappings.findIndex(m => m.name === name);
+  if (index >= 0) {
+    store.mappings[index] = stored;
+  } else {
+    store.mappings.push(stored);
+  }
+  writeStore(store);
+
+  return stored;
+}
+
+export function deleteExportMapping(name: string): boolean {
+  const store = readStore();
+  const remaining = store.mappings.filter(m => m.name !== name);
+  if (remaining.length === store.mappings.length) {
+    return false;
+  }
+  writeStore({ mappings: remaining });
+  return true;
+}
@@ -0,0 +1,141 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { LearningsData } from '../tools/knowledge-tools.js';
+
+export type Learning = LearningsData['learnings'][number];
+export type LearningReviewStatus = 'proposed' | 'approved' | 'rejected';
+
+export interface StoredLearning extends Learning {
+  review_status: LearningReviewStatus;
+  submitted_by: string | null;
+  submitted_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+}
+
+interface LearningsStoreFile {
+  learnings: StoredLearning[];
+}
+
+// ID prefix per category, matching the bundled learnings.json sequences
+export const LEARNING_ID_PREFIXES: Record<string, string> = {
+  security: 'SEC',
+  insurance: 'INS',
+  dlp: 'DLP',
+  design: 'DESIGN',
+  methodology: 'METHOD',
+};
+
+/**
+ * Location of the persisted learnings. Lives outside the build so corrections
+ * recorded in live reviews survive redeploys when the path is on a volume.
+ */
+export function learningsStorePath(): string {
+  return resolve(process.env.LEARNINGS_STORE_PATH || 'data/learned-corrections.json');
+}
+
+function readStore(): LearningsStoreFile {
+  const path = learningsStorePath();
+  if (!existsSync(path)) {
+    return { learnings: [] };
+  }
+
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<LearningsStoreFile>;
+  if (!Array.isArray(parsed.learnings)) {
+    throw new Error(`Learnings store is corrupt: ${path} has no learnings array`);
+  }
+  return { learnings: parsed.learnings };
+}
+
+function writeStore(store: LearningsStoreFile): void {
+  const path = learningsStorePath();
+  mkdirSync(dirname(path), { recursive: true });
+
+  // Write then rename so a crash never leaves a half-written store
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(store, null, 2));
+  renameSync(tempPath, path);
+}
+
+export function listStoredLearnings(status?: LearningReviewStatus): StoredLearning[] {
+  const { learnings } = readStore();
+  return status ? learnings.filter(l => l.review_status === status) : learnings;
+}
+
+/**
+ * Approved learnings in the bundled learnings.json shape, ready to merge
+ */
+export function getApprovedLearnings(): Learning[] {
+  return listStoredLearnings('approved').map(
+    ({ review_status, submitted_by, submitted_at, reviewed_by, reviewed_at, review_note, ...learning }) => learning
+  );
+}
+
+/**
+ * Next ID in the category sequence, counting bundled and stored learnings
+ * (including rejected ones, so an ID is never reused)
+ */
+function nextLearningId(category: string, existingIds: string[]): string {
+  const prefix = LEARNING_ID_PREFIXES[category];
+  if (!prefix) {
+    throw new Error(`Unknown learning category: ${category}`);
+  }
+
+  const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+  const highest = existingIds.reduce((max, id) => {
+    const match = id.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return `${prefix}-${String(highest + 1).padStart(3, '0')}`;
+}
+
+export function proposeLearning(
+  learning: Omit<Learning, 'id' | 'date_logged'>,
+  submittedBy: string | null,
+  bundledIds: string[]
+): StoredLearning {
+  const store = readStore();
+  const now = new Date();
+
+  const stored: StoredLearning = {
+    id: nextLearningId(learning.category, [...bundledIds, ...store.learnings.map(l => l.id)]),
+    ...learning,
+    date_logged: now.toISOString().slice(0, 10),
+    review_status: 'proposed',
+    submitted_by: submittedBy,
+    submitted_at: now.toISOString(),
+  };
+
+  store.learnings.push(stored);
+  writeStore(store);
+
+  return stored;
+}
+
+export function reviewLearning(
+  id: string,
+  decision: Exclude<LearningReviewStatus, 'proposed'>,
+  reviewer?: string,
+  note?: string
+): StoredLearning {
+  const store = readStore();
+  const learning = store.learnings.find(l => l.id === id);
+
+  if (!learning) {
+    throw new Error(`No recorded learning with ID ${id}`);
+  }
+  if (learning.review_status !== 'proposed') {
+    throw new Error(`Learning ${id} is already ${learning.review_status}`);
+  }
+
+  learning.review_status = decision;
+  learning.reviewed_at = new Date().toISOString();
+  if (reviewer) learning.reviewed_by = reviewer;
+  if (note) learning.review_note = note;
+
+  writeStore(store);
+
+  return learning;
+}
@@ -0,0 +1,143 @@
+/**
+ * Response shaping shared by the knowledge tools: field projection on list
+ * items and rendering as pretty JSON, compact JSON or markdown.
+ */
+
+export type ResponseFormat = 'json' | 'compact' | 'markdown';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keep only the requested fields of each item. Fields are dotted paths
+ * ("compliance_logic.no_term_risk"); the identifying keys are always kept.
+ */
+export function projectFields<T extends object>(
+  items: T[],
+  fields: string[] | undefined,
+  alwaysInclude: string[]
+): Array<Partial<T>> {
+  if (!fields || fields.length === 0) return items;
+
+  const available = new Set(items.flatMap(item => Object.keys(item)));
+  const unknown = fields.filter(field => !available.has(field.split('.')[0]));
+  if (unknown.length > 0 && items.length > 0) {
+    throw new Error(`Unknown field(s): ${unknown.join(', ')}. Available fields: ${[...available].join(', ')}`);
+  }
+
+  const paths = [...new Set([...alwaysInclude, ...fields])];
+  return items.map(item => {
+    const projected: JsonObject = {};
+    for (const path of paths) {
+      const keys = path.split('.');
+      let source: unknown = item;
+      for (const key of keys) {
+        source = isObject(source) ? source[key] : undefined;
+      }
+      if (source === undefined) continue;
+
+      let target = projected;
+      for (const key of keys.slice(0, -1)) {
+        if (!isObject(target[key])) target[key] = {};
+        target = target[key] as JsonObject;
+      }
+      target[keys[keys.length - 1]] = source;
+    }
+    return projected as Partial<T>;
+  });
+}
+
+function humanize(key: string): string {
+  const words = key.replace(/^_+/, '').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function inline(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value.includes('\n') ? value.replace(/\n+/g, ' ') : value;
+  if (Array.isArray(value) && value.every(v => !isObject(v) && !Array.isArray(v))) return value.join(', ');
+  return String(value);
+}
+
+// A heading for list items that are records, e.g. "15. Security & Parent Company Guarantees"
+function itemTitle(item: JsonObject): string | null {
+  const id = item.id ?? item.group_id;
+  const name = item.name ?? item.group_name ?? item.issue;
+  if (id !== undefined && name !== undefined) return `${id}. ${name}`;
+  if (id !== undefined) return String(id);
+  return typeof name === 'string' ? name : null;
+}
+
+function bullets(value: unknown, indent: string): string[] {
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      isObject(child) || (Array.isArray(child) && child.some(v => isObject(v) || Array.isArray(v)))
+        ? [`${indent}- **${humanize(key)}**`, ...bullets(child, `${indent}  `)]
+        : [`${indent}- **${humanize(key)}**: ${inline(child)}`]
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(child =>
+      isObject(child) || Array.isArray(child)
+        ? [`${indent}-`, ...bullets(child, `${indent}  `)]
+        : [`${indent}- ${inline(child)}`]
+    );
+  }
+  return [`${indent}- ${inline(value)}`];
+}
+
+function section(key: string, value: unknown): string[] {
+  const lines = [`## ${humanize(key)}`, ''];
+
+  if (Array.isArray(value) && value.length > 0 && value.every(v => isObject(v) && itemTitle(v))) {
+    for (const item of value as JsonObject[]) {
+      lines.push(`### ${itemTitle(item)}`, '');
+      const rest = Object.fromEntries(
+        Object.entries(item).filter(([k]) => !['id', 'name', 'group_id', 'group_name'].includes(k))
+      );
+      lines.push(...bullets(rest, ''), '');
+    }
+    return lines;
+  }
+
+  if (typeof value === 'string' && value.includes('\n')) {
+    lines.push('```', value, '```', '');
+  } else if (isObject(value) || Array.isArray(value)) {
+    lines.push(...bullets(value, ''), '');
+  } else {
+    lines.push(inline(value), '');
+  }
+  return lines;
+}
+
+function toMarkdown(response: JsonObject, title: string): string {
+  const lines = [`# ${title}`, ''];
+  const scalars = Object.entries(response).filter(([, value]) => !isObject(value) && !Array.isArray(value) && !(typeof value === 'string' && value.includes('\n')));
+  for (const [key, value] of scalars) {
+    if (value !== undefined) lines.push(`**${humanize(key)}:** ${inline(value)}  `);
+  }
+  if (scalars.length > 0) lines.push('');
+
+  for (const [key, value] of Object.entries(response)) {
+    if (value === undefined || scalars.some(([scalarKey]) => scalarKey === key)) continue;
+    lines.push(...section(key, value));
+  }
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Serialize a tool response in the requested format
+ */
+export function renderResponse(response: JsonObject, format: ResponseFormat = 'json', title = 'Response'): string {
+  switch (format) {
+    case 'compact':
+      return JSON.stringify(response);
+    case 'markdown':
+      return toMarkdown(response, title);
+    default:
+      return JSON.stringify(response, null, 2);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * {{key}} placeholders in knowledge text, filled from thresholds.json so a
+ * number such as the 5% security cap is stated in one place only.
+ */
+
+import type { Threshold, ThresholdKey, ThresholdsData } from '../schemas/knowledge-schemas.js';
+
+const PLACEHOLDER = /\{\{\s*([a-z0-9_]+)\s*\}\}/g;
+
+export type ThresholdValues = Record<ThresholdKey, number>;
+
+const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+
+/**
+ * A threshold as it reads in prose: 5%, 10 business days, 52 weeks, $20M
+ */
+export function formatThreshold({ value, unit }: Threshold): string {
+  switch (unit) {
+    case 'percent':
+      return `${value}%`;
+    case 'business_days':
+      return plural(value, 'business day');
+    case 'days':
+      return plural(value, 'day');
+    case 'weeks':
+      return plural(value, 'week');
+    case 'months':
+      return plural(value, 'month');
+    case 'aud':
+      if (value >= 1_000_000 && value % 100_000 === 0) return `$${value / 1_000_000}M`;
+      if (value >= 1_000 && value % 1_000 === 0) return `$${value / 1_000}k`;
+      return `$${value.toLocaleString('en-AU')}`;
+  }
+}
+
+/**
+ * Just the numbers, keyed by threshold, for code that compares against them
+ */
+export function thresholdValues(data: ThresholdsData): ThresholdValues {
+  return Object.fromEntries(
+    Object.entries(data.thresholds).map(([key, threshold]) => [key, threshold.value])
+  ) as ThresholdValues;
+}
+
+/**
+ * Every placeholder in a JSON value, with the path of the string it sits in
+ */
+export function findPlaceholders(value: unknown, path = ''): Array<{ path: string; key: string }> {
+  if (typeof value === 'string') {
+    return [...value.matchAll(PLACEHOLDER)].map(match => ({ path, key: match[1] }));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => findPlaceholders(item, `${path}[${i}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, child]) => findPlaceholders(child, path ? `${path}.${key}` : key));
+  }
+  return [];
+}
+
+/**
+ * Copy a JSON value with every placeholder replaced by its formatted threshold.
+ * Unknown keys are left as written; checkKnowledgeIntegrity reports them.
+ */
+export function resolvePlaceholders<T>(value: T, data: ThresholdsData): T {
+  const thresholds: Partial<Record<string, Threshold>> = data.thresholds;
+
+  const resolve = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      return node.replace(PLACEHOLDER, (placeholder, key: string) => {
+        const threshold = thresholds[key];
+        return threshold ? formatThreshold(threshold) : placeholder;
+      });
+    }
+    if (Array.isArray(node)) return node.map(resolve);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, resolve(child)]));
+    }
+    return node;
+  };
+
+  return resolve(value) as T;
+}
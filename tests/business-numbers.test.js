@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { businessNumberDigits, checkAbn, checkAcn } from '../build/utils/business-numbers.js';
+
+test('spaces and hyphens are ignored', () => {
+  assert.equal(businessNumberDigits('51 824-753 556'), '51824753556');
+});
+
+test('valid ABNs pass the mod 89 checksum', () => {
+  for (const abn of ['51 824 753 556', '53 004 085 616', '83914571673']) {
+    assert.equal(checkAbn(abn).valid, true, abn);
+  }
+});
+
+test('a mistyped or transposed ABN digit fails the checksum', () => {
+  const result = checkAbn('51 824 753 557');
+  assert.equal(result.valid, false);
+  assert.match(result.reason, /checksum/);
+  assert.equal(checkAbn('15 824 753 556').valid, false);
+});
+
+test('an ABN must be 11 digits', () => {
+  assert.match(checkAbn('51 824 753 55').reason, /11 digits, got 10/);
+  assert.equal(checkAbn('5182475355A').valid, false);
+});
+
+test('valid ACNs pass the check digit and invalid ones fail', () => {
+  for (const acn of ['004 085 616', '000 000 019', '010 499 966']) {
+    assert.equal(checkAcn(acn).valid, true, acn);
+  }
+  assert.match(checkAcn('004 085 617').reason, /check digit/);
+  assert.match(checkAcn('004 085 61').reason, /9 digits/);
+});
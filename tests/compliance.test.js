@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessPrinciple } from '../build/tools/compliance-tools.js';
+import { AssessPrincipleSchema } from '../build/schemas/tool-schemas.js';
+
+const assess = input => JSON.parse(assessPrinciple(AssessPrincipleSchema.parse(input)));
+
+test('no security is compliant and more favorable than the standard (SEC-001)', () => {
+  const result = assess({ principle_id: 15, parameters: { security_form: 'none' } });
+  assert.equal(result.status, 'Compliant');
+  assert.equal(result.comparison, 'more_favorable');
+  assert.match(result.reasons[0], /SEC-001/);
+});
+
+test('unconditional bank guarantees are non-compliant with the departure template filled in (SEC-003)', () => {
+  const result = assess({ principle_id: 15, parameters: { security_form: 'unconditional_bank_guarantee', security_percent: 5 } });
+  assert.equal(result.status, 'Non-Compliant');
+  assert.equal(result.departure_needed, true);
+  assert.match(result.departure_template, /2 x 2\.5% dated bank guarantees/);
+  assert.doesNotMatch(result.departure_template, /\{\{/);
+});
+
+test('payment terms: 14 days EOM equals the standard, 45 days from invoice exceeds the maximum', () => {
+  const eom = assess({ principle_id: 14, parameters: { payment_days: 14, payment_basis: 'end_of_month' } });
+  assert.equal(eom.status, 'Compliant');
+  assert.equal(eom.comparison, 'equal');
+
+  const invoice = assess({ principle_id: 14, parameters: { payment_days: 45, payment_basis: 'invoice' } });
+  assert.equal(invoice.status, 'Non-Compliant');
+  assert.match(invoice.reasons[0], /exceeds 30 days/);
+});
+
+test('insurance below the DuraCube limit is compliant and PI is always non-compliant (INS-001)', () => {
+  assert.equal(assess({ principle_id: 25, parameters: { public_liability_required: 5_000_000 } }).status, 'Compliant');
+  assert.equal(assess({ principle_id: 25, parameters: { public_liability_required: 25_000_000 } }).status, 'Non-Compliant');
+  assert.equal(assess({ principle_id: 25, parameters: { pi_required: true } }).status, 'Non-Compliant');
+});
+
+test('a DLP over 52 weeks or with re-warranty is non-compliant', () => {
+  assert.equal(assess({ principle_id: 17, parameters: { dlp_weeks: 52 } }).status, 'Compliant');
+  assert.equal(assess({ principle_id: 17, parameters: { dlp_months: 24 } }).status, 'Non-Compliant');
+  assert.equal(assess({ principle_id: 17, parameters: { dlp_weeks: 52, re_warranty: true } }).status, 'Non-Compliant');
+});
+
+test('an absent release term is compliant when no security is required (SEC-002)', () => {
+  const result = assess({ principle_id: 16, term_present: false, parameters: { security_required: false } });
+  assert.equal(result.status, 'Compliant');
+  assert.equal(result.comparison, 'absent');
+});
+
+test('missing parameters and non-quantitative principles are errors', () => {
+  assert.throws(() => assess({ principle_id: 9, parameters: {} }), /needs parameter 'assessment_business_days'/);
+  assert.throws(() => assess({ principle_id: 2 }), /not quantitative/);
+});
+
+test('a security percentage without its form is an error, not assumed dated', () => {
+  assert.throws(() => assess({ principle_id: 15, parameters: { security_percent: 5 } }), /needs parameter 'security_form'/);
+  assert.equal(assess({ principle_id: 15, parameters: { security_percent: 5, security_form: 'dated_bank_guarantee' } }).status, 'Compliant');
+  assert.equal(assess({ principle_id: 15, parameters: { security_percent: 0 } }).status, 'Compliant');
+});
+
+test('an LD cap without ld_sole_remedy is an error, not a failure', () => {
+  assert.throws(() => assess({ principle_id: 4, parameters: { ld_cap_percent: 10 } }), /needs parameter 'ld_sole_remedy'/);
+  assert.equal(assess({ principle_id: 4, parameters: { ld_cap_percent: 10, ld_sole_remedy: true } }).status, 'Compliant');
+  assert.equal(assess({ principle_id: 4, parameters: { ld_cap_percent: 10, ld_sole_remedy: false } }).status, 'Non-Compliant');
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkFindingConsistency } from '../build/tools/consistency-tools.js';
+import { CheckFindingConsistencySchema } from '../build/schemas/tool-schemas.js';
+
+// All 28 findings Compliant, with the given rows replaced
+const findings = (overrides = {}) => Array.from({ length: 28 }, (_, i) => ({
+  no: i + 1,
+  status: 'Compliant',
+  page: `Page ${i + 1}, Clause ${i + 1}.1`,
+  clause: 'Clause text',
+  ...overrides[i + 1],
+}));
+
+const check = input => JSON.parse(checkFindingConsistency(CheckFindingConsistencySchema.parse(input)));
+const suggestion = (result, no) => result.suggested_corrections.find(s => s.no === no)?.suggested_status;
+
+test('a consistent set of findings has no contradictions', () => {
+  const result = check({ rows: findings() });
+  assert.equal(result.consistent, true);
+  assert.equal(result.findings_checked, 28);
+  assert.deepEqual(result.missing_principles, []);
+});
+
+test('no security makes Principle 15 and its release Compliant (SEC-001, SEC-002)', () => {
+  const result = check({
+    rows: findings({ 15: { status: 'No Term', clause: '' }, 16: { status: 'Non-Compliant' } }),
+  });
+  assert.equal(result.consistent, false);
+  assert.equal(result.facts_inferred.security_required.value, false);
+  assert.equal(suggestion(result, 15), 'Compliant');
+  assert.equal(suggestion(result, 16), 'Compliant');
+});
+
+test('unconditional guarantees in the clause text make 15 Non-Compliant and flag a Compliant release', () => {
+  const result = check({ rows: findings({ 15: { clause: 'Two unconditional bank guarantees each of 2.5%' } }) });
+  assert.equal(result.facts_inferred.unconditional_guarantees.source, 'clause_text');
+  assert.equal(suggestion(result, 15), 'Non-Compliant');
+  assert.equal(suggestion(result, 16), 'Non-Compliant');
+  assert.equal(result.error_count, 1);
+  assert.equal(result.warning_count, 1);
+});
+
+test('a PI requirement under 25 is checked against Design Liability under 28', () => {
+  const result = check({ rows: findings({ 25: { clause: 'The Subcontractor must hold professional indemnity insurance of $5M' } }) });
+  assert.equal(suggestion(result, 25), 'Non-Compliant');
+  assert.equal(suggestion(result, 28), 'Non-Compliant');
+
+  const negated = check({ rows: findings({ 25: { clause: 'No professional indemnity insurance is required' } }) });
+  assert.equal(negated.consistent, true);
+});
+
+test('explicit facts override what the clause text suggests', () => {
+  const result = check({
+    rows: findings({ 25: { clause: 'The Subcontractor must hold professional indemnity insurance' } }),
+    facts: { pi_required: false },
+  });
+  assert.equal(result.consistent, true);
+  assert.equal(result.facts_inferred.pi_required.source, 'facts');
+});
+
+test('findings can be given as the schedule CSV, and one of rows or csv is required', () => {
+  const csv = 'No,Term,Status,Page,Clause,Departure,Comments\n15,Security,No Term,,,,\n16,Release of Security,Non-Compliant,"Page 2, Item 7(b)",Released at final completion,,\n';
+  const result = check({ csv });
+  assert.equal(result.findings_checked, 2);
+  assert.equal(result.missing_principles.length, 26);
+  assert.equal(suggestion(result, 16), 'Compliant');
+
+  assert.throws(() => check({}), /Provide either rows or csv/);
+});
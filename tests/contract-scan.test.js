@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { scanContractText } from '../build/tools/contract-scan-tools.js';
+import { ScanContractTextSchema } from '../build/schemas/tool-schemas.js';
+
+const CONTRACT = [
+  '--- Page 10 ---',
+  '11.3 Set-off',
+  'The Principal may set off any amount owing by the Subcontractor against any payment due.',
+  '--- Page 11 ---',
+  '12.1 Payment',
+  'The Principal must pay within 45 days of receiving a payment claim. Pay when paid applies.',
+].join('\n');
+
+const scan = input => JSON.parse(scanContractText(ScanContractTextSchema.parse(input)));
+const result = (response, id) => response.results.find(r => r.principle_id === id);
+
+test('search terms are located by page and clause, with overlapping terms counted once', () => {
+  const response = scan({ contract_text: CONTRACT, principle_ids: [24] });
+  const [candidate] = result(response, 24).candidate_clauses;
+  assert.equal(candidate.reference, 'Page 10, Clause 11.3');
+  assert.deepEqual(candidate.matched_terms, [{ term: 'set off', term_type: 'primary', occurrences: 2 }]);
+  assert.deepEqual(candidate.red_flags, ['Broad set-off provisions']);
+  assert.equal(response.page_range, '10-11');
+});
+
+test('red flag sentences are candidates and their sentence is the snippet', () => {
+  const [candidate] = result(scan({ contract_text: CONTRACT, principle_ids: [14] }), 14).candidate_clauses;
+  assert.equal(candidate.reference, 'Page 11, Clause 12.1');
+  assert.deepEqual(candidate.red_flags, ['Pay when paid clauses']);
+  assert.match(candidate.snippet, /Pay when paid applies\./);
+});
+
+test('principles with no hits are listed as likely No Term with their risk', () => {
+  const response = scan({ contract_text: CONTRACT, principle_ids: [14, 22, 24] });
+  assert.equal(response.principles_scanned, 3);
+  assert.equal(response.principles_with_hits, 2);
+  assert.deepEqual(response.likely_no_term.map(p => p.principle_id), [22]);
+  assert.match(response.likely_no_term[0].no_term_risk, /IP/);
+});
+
+test('a pages array scans the same as marked text and candidates are capped', () => {
+  const pages = [
+    { page: 10, text: '11.3 Set-off\nThe Principal may set off any amount owing by the Subcontractor against any payment due.' },
+    { page: 11, text: '12.1 Set-off\nSet off applies to all claims.' },
+  ];
+  const response = scan({ pages, principle_ids: [24], max_candidates_per_principle: 1 });
+  const set = result(response, 24);
+  assert.equal(set.candidate_count, 2);
+  assert.equal(set.candidate_clauses.length, 1);
+  assert.equal(set.candidate_clauses[0].reference, 'Page 10, Clause 11.3');
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildClauseMap, clauseAt, formatReference, splitContractText } from '../build/utils/contract-text.js';
+import { indexContractStructure } from '../build/tools/contract-scan-tools.js';
+
+const CONTRACT = `Cover page
+--- Page 1 ---
+8 Security
+8.1 Bank guarantees
+The Subcontractor must provide security.
+--- Page 2 ---
+continued text about security
+8.2 Release
+(a) at PC
+[Page 3]
+Schedule 1 Contract Particulars
+Item 15 Defects Liability Period: 52 weeks`;
+
+test('page markers split the text and leading text joins the first page', () => {
+  const pages = splitContractText(CONTRACT);
+  assert.deepEqual(pages.map(p => p.page), [1, 2, 3]);
+  assert.ok(pages[0].text.startsWith('Cover page\n8 Security'));
+  assert.deepEqual(splitContractText('one\ftwo').map(p => p.text), ['one', 'two']);
+});
+
+test('a clause carries over a page break until the next heading', () => {
+  const map = buildClauseMap(splitContractText(CONTRACT));
+  assert.equal(formatReference(2, clauseAt(map, 2, 0)), 'Page 2, Clause 8.1');
+  assert.equal(formatReference(2, clauseAt(map, 2, 40)), 'Page 2, Clause 8.2');
+  assert.equal(formatReference(3, clauseAt(map, 3, 40)), 'Page 3, Item 15');
+  assert.equal(formatReference(1, clauseAt(map, 1, 0)), 'Page 1, Clause not identified');
+});
+
+test('index_contract_structure lists headings with their level and page span', () => {
+  const result = JSON.parse(indexContractStructure({ contract_text: CONTRACT, max_depth: 2 }));
+  assert.deepEqual(
+    result.table_of_contents.map(e => [e.reference, e.level, e.page_start, e.page_end]),
+    [['Clause 8', 1, 1, 2], ['Clause 8.1', 2, 1, 2], ['Clause 8.2', 2, 2, 2], ['Schedule 1', 1, 3, 3], ['Item 15', 2, 3, 3]]
+  );
+  assert.equal(result.pages[1].continues, 'Clause 8.1');
+});
+
+test('a lookup outside the text is an error on that lookup only', () => {
+  const result = JSON.parse(indexContractStructure({
+    contract_text: CONTRACT,
+    lookups: [{ page: 2, offset: 40 }, { page: 9, offset: 0 }, { page: 1, offset: 5000 }],
+  }));
+  assert.deepEqual(result.references[0], { page: 2, offset: 40, reference: 'Page 2, Clause 8.2' });
+  assert.equal(result.references[1].reference, null);
+  assert.match(result.references[1].error, /Page 9 is not in the contract text \(pages 1-3\)/);
+  assert.match(result.references[2].error, /past the end of page 1/);
+});
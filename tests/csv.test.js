@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from '../build/utils/csv.js';
+
+test('parseCsv reads quoted fields, escaped quotes and line breaks inside quotes', () => {
+  const rows = parseCsv('No,Clause\n15,"Two ""unconditional"" guarantees,\nat PC"\n');
+  assert.deepEqual(rows, [
+    ['No', 'Clause'],
+    ['15', 'Two "unconditional" guarantees,\nat PC'],
+  ]);
+});
+
+test('parseCsv strips a byte order mark and accepts CRLF line endings', () => {
+  assert.deepEqual(parseCsv('\uFEFFa,b\r\n1,2\r\n'), [['a', 'b'], ['1', '2']]);
+});
+
+test('parseCsv keeps a last row without a trailing newline', () => {
+  assert.deepEqual(parseCsv('a,b\n1,'), [['a', 'b'], ['1', '']]);
+});
+
+test('toCsv quotes only fields that need it and round-trips through parseCsv', () => {
+  const rows = [['Name', 'Note', 'Amount'], ['Builder Pty Ltd', 'says "hi", twice', 1500000], ['', null, undefined]];
+  const csv = toCsv(rows);
+  assert.equal(csv, 'Name,Note,Amount\r\nBuilder Pty Ltd,"says ""hi"", twice",1500000\r\n,,\r\n');
+  assert.deepEqual(parseCsv(csv), [['Name', 'Note', 'Amount'], ['Builder Pty Ltd', 'says "hi", twice', '1500000'], ['', '', '']]);
+});
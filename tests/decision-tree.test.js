@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runDecisionTree } from '../build/tools/decision-tree-tools.js';
+import { RunDecisionTreeSchema } from '../build/schemas/tool-schemas.js';
+
+const run = (tree, facts) => JSON.parse(runDecisionTree(RunDecisionTreeSchema.parse({ tree, facts })));
+const dlp = facts => run('dlp_assessment', facts);
+
+test('a 12-month DLP is compliant whether given as dates, weeks or months', () => {
+  const results = [
+    dlp({ dlp_start_date: '2025-01-01', dlp_end_date: '2026-01-01' }),
+    dlp({ dlp_weeks: 52 }),
+    dlp({ dlp_months: 12 }),
+  ];
+  assert.deepEqual(results.map(r => r.status), ['Compliant', 'Compliant', 'Compliant']);
+  // 365 days is over 52 weeks but within 12 calendar months of the start
+  assert.equal(results[0].path[0].node, 'dlp_assessment.12_months_or_less');
+  assert.match(results[0].path[0].answer, /^365 calendar days/);
+});
+
+test('a DLP over 12 months is non-compliant in every form', () => {
+  const results = [
+    dlp({ dlp_start_date: '2025-01-01', dlp_end_date: '2026-01-02' }),
+    dlp({ dlp_weeks: 53 }),
+    dlp({ dlp_months: 13 }),
+  ];
+  assert.deepEqual(results.map(r => r.status), ['Non-Compliant', 'Non-Compliant', 'Non-Compliant']);
+  assert.deepEqual(results.map(r => r.path[0].node.split('.')[1]), ['over_12_months', 'over_52_weeks', 'over_12_months']);
+  assert.equal(results[2].path[0].outcome, 'NON-COMPLIANT');
+});
+
+test('re-warranty fails a DLP within the period', () => {
+  assert.equal(dlp({ dlp_weeks: 52, re_warranty: true }).status, 'Non-Compliant');
+});
+
+test('invalid dates and missing facts are errors', () => {
+  assert.throws(() => dlp({ dlp_start_date: 'soon', dlp_end_date: '2026-01-01' }), /Invalid date for dlp_start_date/);
+  assert.throws(() => dlp({}), /dlp_months/);
+});
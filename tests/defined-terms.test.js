@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractDefinedTerms } from '../build/tools/defined-terms-tools.js';
+
+const CONTRACT = `--- Page 3 ---
+1 Definitions
+"Contract Sum" means the sum of $1,250,000 excluding GST, subject to clause 12.
+"Consequential Loss" means loss of profit only.
+"Principal" means ABC Pty Ltd.
+--- Page 4 ---
+2 Security
+The Contractor must provide Security to Builder Pty Ltd (the "Head Contractor") within 7 days. The Contract Sum is payable monthly.
+--- Page 20 ---
+30 Miscellaneous
+"Consequential Loss" means any indirect loss.`;
+
+const result = JSON.parse(extractDefinedTerms({ contract_text: CONTRACT }));
+const entry = term => result.glossary.find(e => e.term === term);
+
+test('quoted, plain and inline definitions are collected with their source, references and uses', () => {
+  assert.equal(result.definitions_clause, 'Page 3, Clause 1');
+  assert.deepEqual(entry('Contract Sum').refers_to, ['Clause 12']);
+  assert.equal(entry('Contract Sum').occurrences, 2);
+  assert.equal(entry('Head Contractor').kind, 'inline');
+  assert.equal(entry('Head Contractor').source, 'Page 4, Clause 2');
+});
+
+test('a term defined twice with different wording is a conflict', () => {
+  assert.deepEqual(result.conflicts.map(c => [c.term, c.sources]), [['Consequential Loss', ['Page 3, Clause 1', 'Page 20, Clause 30']]]);
+});
+
+test('a defined Contract Sum is annotated against finance category 1 (Contract Value)', () => {
+  const contractValue = result.finance_annotations.find(a => a.category_id === 1);
+  assert.ok(contractValue, JSON.stringify(result.finance_annotations));
+  assert.deepEqual(contractValue.defined_terms.map(t => t.term), ['Contract Sum']);
+  assert.ok(!result.finance_annotations.some(a => a.category_id === 9));
+});
+
+test('a bespoke Consequential Loss is annotated against principle 2', () => {
+  const principle = result.principle_annotations.find(a => a.principle_id === 2);
+  assert.deepEqual(principle.defined_terms.map(t => t.matched_search_term), ['consequential loss']);
+});
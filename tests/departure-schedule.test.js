@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getKnowledgeBase } from '../build/tools/knowledge-tools.js';
+import { generateDepartureScheduleXlsx, validateScheduleRows } from '../build/tools/departure-schedule-tools.js';
+import { getPrompt } from '../build/prompts/knowledge-prompts.js';
+
+const { principles, format } = getKnowledgeBase();
+const { section_1, section_2 } = format.excel_structure.section_structure;
+const order = [...section_1.principles, ...section_2.principles];
+
+const row = (no, overrides = {}) => ({
+  no,
+  term: principles.principles.find(p => p.id === no)?.name ?? '',
+  status: 'Compliant',
+  page: 'Page 5, Clause 8.1',
+  clause: 'Clause text',
+  departure: '',
+  comments: '',
+  ...overrides,
+});
+
+test('a complete schedule in section order is valid', () => {
+  const report = validateScheduleRows(order.map(no => row(no)), 'ABC_NewOffice_$500000');
+  assert.equal(report.valid, true, JSON.stringify(report));
+  assert.equal(report.total_rows, 28);
+});
+
+test('page references without a clause, and departures without an action verb, are row violations', () => {
+  const rows = order.map(no => row(no));
+  rows[0] = row(order[0], { status: 'Non-Compliant', page: 'Page 5', departure: 'Change the cap' });
+  const report = validateScheduleRows(rows, 'ABC_NewOffice_$500000');
+  assert.equal(report.valid, false);
+  const violations = report.row_violations[0].violations.join('\n');
+  assert.match(violations, /page AND clause/);
+  assert.match(violations, /action verb/);
+});
+
+test('missing and duplicated principles are schedule violations', () => {
+  const rows = order.filter(no => no !== 17).map(no => row(no));
+  rows.splice(1, 0, row(order[0]));
+  const report = validateScheduleRows(rows, undefined);
+  assert.deepEqual(report.missing_principles, [17]);
+  assert.ok(report.schedule_violations.some(v => v.startsWith(`Principle ${order[0]} appears 2 times`)));
+});
+
+test('the workbook generator reports findings it leaves out instead of dropping them', async () => {
+  const findings = [...order.map(no => row(no)), row(order[0], { status: 'Non-Compliant' }), row(99)];
+  const workbook = await generateDepartureScheduleXlsx({ customer_name: 'ABC', project_name: 'New Office', contract_value: 500000, findings });
+
+  assert.equal(workbook.filename, 'ABC_New_Office_$500000.xlsx');
+  assert.ok(workbook.buffer.length > 0);
+  assert.deepEqual(workbook.rejected_findings.map(r => [r.finding, r.no]), [[29, order[0]], [30, 99]]);
+  assert.equal(workbook.validation.valid, false);
+  assert.ok(workbook.validation.schedule_violations.some(v => v.startsWith(`Principle ${order[0]} appears 2 times`)));
+  assert.ok(workbook.validation.row_violations.some(r => r.no === 99));
+  // The duplicate sits beside its original, so nothing is reported out of order
+  assert.ok(!workbook.validation.row_violations.some(r => r.violations.some(v => v.startsWith('Out of order'))));
+});
+
+test('the combine prompt sends clients to the workbook generator, not openpyxl', () => {
+  const text = getPrompt('combine_departure_schedule').messages[0].content.text;
+  assert.match(text, /generate_departure_schedule_xlsx/);
+  assert.doesNotMatch(text, /Use Python with openpyxl/);
+});
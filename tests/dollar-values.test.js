@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractDollarValues } from '../build/tools/finance-tools.js';
+
+const extract = contractText => JSON.parse(extractDollarValues({ contract_text: contractText }));
+
+test('a table row amount without a $ sign conflicts with the narrative Contract Sum', () => {
+  const result = extract([
+    '--- Page 3 ---',
+    '1.1 Contract Sum',
+    'The Contract Sum is $1.2M plus GST.',
+    '--- Page 40 ---',
+    'Item 1',
+    '| Contract Sum | 1,250,000.00 |',
+    '| Provisional sum | 45,000 |',
+  ].join('\n'));
+
+  const [narrative, row, provisional] = result.dollar_values;
+  assert.equal(narrative.amount, '$1,200,000');
+  assert.equal(narrative.gst_treatment, 'Exclusive');
+  assert.equal(row.amount, '$1,250,000');
+  assert.equal(row.as_written, '1,250,000.00');
+  assert.equal(row.relates_to, 'Contract Sum');
+  assert.equal(row.source, 'Page 40, Item 1');
+  // The subject is searched within the row, not carried over from the row above
+  assert.equal(provisional.amount, '$45,000');
+  assert.equal(provisional.relates_to, null);
+
+  const [conflict] = result.edge_cases.conflicts_detected;
+  assert.equal(conflict.status, 'CONFLICT_DETECTED');
+  assert.deepEqual(conflict.instances.map(i => i.source), ['Page 3, Clause 1.1', 'Page 40, Item 1']);
+});
+
+test('table numbers without an amount label are not read as dollars', () => {
+  const result = extract('--- Page 2 ---\n| Completion year | 2027 |\n| Clause 14 | 1500 |');
+  assert.equal(result.amounts_found, 0);
+});
+
+test('amounts written in words are found and a repeated figure is not counted twice', () => {
+  const words = extract('--- Page 2 ---\n2.1 The Security is two hundred thousand dollars.');
+  assert.equal(words.dollar_values[0].amount, '$200,000');
+  assert.equal(words.dollar_values[0].relates_to, 'Security');
+
+  const repeated = extract('--- Page 2 ---\nThe price is fifty thousand dollars ($50,000).');
+  assert.deepEqual(repeated.dollar_values.map(v => v.as_written), ['$50,000']);
+});
+
+test('rates are reported and exclusive and inclusive figures do not conflict', () => {
+  const rate = extract('--- Page 2 ---\nLabour is charged at $95 per hour.');
+  assert.equal(rate.dollar_values[0].rate, 'per hour');
+
+  const gst = extract('--- Page 2 ---\nThe Contract Sum is $1,100,000 inclusive of GST. The Contract Sum is $1,000,000 excluding GST.');
+  assert.deepEqual(gst.dollar_values.map(v => v.gst_treatment), ['Inclusive', 'Exclusive']);
+  assert.deepEqual(gst.edge_cases.conflicts_detected, []);
+});
+
+test('punctuation after a figure is not part of the amount', () => {
+  const result = extract('--- Page 4 ---\n8.1 Security of $60,000, plus GST. The fee is $1500000.');
+  const [security, fee] = result.dollar_values;
+  assert.equal(security.as_written, '$60,000');
+  assert.equal(security.amount, '$60,000');
+  assert.equal(security.gst_treatment, 'Exclusive');
+  assert.equal(security.source, 'Page 4, Clause 8.1');
+  // Figures without thousands separators are still read whole
+  assert.equal(fee.as_written, '$1500000');
+  assert.equal(fee.amount, '$1,500,000');
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { draftDeparture } from '../build/tools/drafting-tools.js';
+import { DraftDepartureSchema } from '../build/schemas/tool-schemas.js';
+
+const draft = input => JSON.parse(draftDeparture(DraftDepartureSchema.parse(input)));
+const location = 'Page 5, Clause 8.1';
+
+test('a Replace template fills in the current wording, stripped of its own quotes', () => {
+  const result = draft({ principle_id: 1, status: 'Non-Compliant', current_wording: ' "unlimited" ', location });
+  assert.equal(result.departure, "Replace: 'unlimited' with 'Liability limited to 100% of Contract Value'");
+  assert.equal(result.fallback_departure, "Replace: 'unlimited' with 'Higher cap with specific carve-outs for gross negligence only'");
+  assert.deepEqual(result.row, {
+    no: 1,
+    term: 'Limitation of Liability',
+    status: 'Non-Compliant',
+    page: location,
+    clause: '"unlimited"',
+    departure: result.departure,
+    comments: '',
+  });
+  assert.deepEqual(result.format_check, { valid: true, violations: [] });
+});
+
+test('a No Term finding inserts the new language instead of replacing it', () => {
+  const result = draft({ principle_id: 1, status: 'No Term' });
+  assert.equal(result.departure, "Insert: 'Liability limited to 100% of Contract Value'");
+  assert.equal(result.fallback_departure, "Insert: 'Higher cap with specific carve-outs for gross negligence only'");
+  assert.equal(result.row.page, 'N/A');
+  assert.equal(result.row.clause, 'No limitation of liability provision found');
+});
+
+test('alternative actions in a template are returned alongside the departure', () => {
+  const result = draft({ principle_id: 3, status: 'Non-Compliant', current_wording: 'head contract applies', location });
+  assert.equal(result.departure, 'Delete: head contract flow-down provisions');
+  assert.deepEqual(result.alternative_departures, ['Amend: to specify only agreed provisions']);
+  // A fallback to a deletion amends the clause instead
+  assert.equal(result.fallback_departure, "Amend: 'Limited specific provisions identified and agreed'");
+
+  // With no term there is nothing to delete, so only the amendment remains, inserted
+  assert.equal(draft({ principle_id: 3, status: 'No Term' }).departure, 'Insert: to specify only agreed provisions');
+});
+
+test('a Compliant finding leaves the departure blank', () => {
+  const result = draft({ principle_id: 24, status: 'Compliant', current_wording: 'no set-off', location });
+  assert.equal(result.departure, '');
+  assert.equal(result.fallback_departure, null);
+  assert.match(result.note, /left blank/);
+});
+
+test('missing wording or location, and a deletion with no term, are rejected', () => {
+  assert.throws(() => draft({ principle_id: 1, status: 'Non-Compliant', location }), /needs current_wording/);
+  assert.throws(() => draft({ principle_id: 1, status: 'Non-Compliant', current_wording: 'unlimited' }), /needs location.*PAGE-001/);
+  assert.throws(() => draft({ principle_id: 19, status: 'No Term' }), /nothing to delete/);
+});
+
+test('the row is checked against the schedule format rules', () => {
+  const result = draft({ principle_id: 24, status: 'Non-Compliant', current_wording: 'set off any amount', location: 'Page 12' });
+  assert.equal(result.format_check.valid, false);
+  assert.match(result.format_check.violations[0], /page AND clause reference/);
+});
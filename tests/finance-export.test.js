@@ -0,0 +1,98 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { exportFinanceExtraction, paymentDays, saveFinanceExportMapping } from '../build/tools/finance-export-tools.js';
+import { ExportFinanceExtractionSchema } from '../build/schemas/tool-schemas.js';
+import { parseCsv } from '../build/utils/csv.js';
+
+const FIXTURE = JSON.parse(readFileSync(new URL('./fixtures/finance-extraction.json', import.meta.url), 'utf-8'));
+
+let dir;
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'export-mappings-'));
+  process.env.EXPORT_MAPPINGS_PATH = join(dir, 'export-mappings.json');
+});
+after(() => {
+  delete process.env.EXPORT_MAPPINGS_PATH;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const exportFiles = (input, change) => {
+  const extraction = structuredClone(FIXTURE);
+  change?.(extraction);
+  return JSON.parse(exportFinanceExtraction(ExportFinanceExtractionSchema.parse({ extraction, ...input })));
+};
+// The CSV of one file as header -> value records
+const records = (result, file) => {
+  const [header, ...rows] = parseCsv(result.files.find(f => f.file === file).csv);
+  return rows.map(row => Object.fromEntries(header.map((h, i) => [h, row[i]])));
+};
+
+test('payment days keep whether they are counted from the end of the month', () => {
+  assert.deepEqual(paymentDays('14 days End of Month'), { payment_days: '14', payment_day_basis: 'days EOM' });
+  assert.deepEqual(paymentDays('14 days after the end of the month'), { payment_days: '14', payment_day_basis: 'days EOM' });
+  assert.deepEqual(paymentDays('14 EOM'), { payment_days: '14', payment_day_basis: 'days EOM' });
+  assert.deepEqual(paymentDays('EOM + 14 days'), { payment_days: '14', payment_day_basis: 'days EOM' });
+  assert.deepEqual(paymentDays('Within 30 business days of a valid claim'), { payment_days: '30', payment_day_basis: 'business days' });
+  assert.deepEqual(paymentDays('30 days'), { payment_days: '30', payment_day_basis: 'days' });
+  assert.deepEqual(paymentDays('On completion'), { payment_days: '', payment_day_basis: '' });
+});
+
+test('the built-in mapping writes every file from a valid extraction', () => {
+  const result = exportFiles({ contract_reference: 'SC-1042' });
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.validation.valid, true);
+  assert.deepEqual(result.files.map(f => f.filename), [
+    'SC-1042_contract_master.csv', 'SC-1042_parties.csv', 'SC-1042_retention_register.csv', 'SC-1042_payment_terms.csv',
+  ]);
+
+  const [master] = records(result, 'contract_master');
+  assert.equal(master['Customer Name'], 'Builder Pty Ltd');
+  assert.equal(master['Customer ABN'], '53004085616');
+  assert.equal(master['Contract Value Amount'], '1500000');
+  assert.equal(master['Retention Percentage'], '5');
+
+  const [payment] = records(result, 'payment_terms');
+  assert.equal(payment['Payment Days'], '14');
+  assert.equal(payment['Payment Day Basis'], 'days EOM');
+});
+
+test('the reference falls back to the document name', () => {
+  assert.equal(exportFiles({}).contract_reference, 'Subcontract');
+});
+
+test('an ABN that fails the checksum is left blank with a warning', () => {
+  const result = exportFiles({ files: ['parties'] }, extraction => {
+    extraction.contract_parties[0].abn = '53 004 085 617';
+  });
+  assert.equal(records(result, 'parties')[0].ABN, '');
+  assert.ok(result.warnings.some(w => /Builder Pty Ltd: 53 004 085 617 failed its checksum/.test(w)));
+  assert.ok(result.warnings.some(w => /validation violation/.test(w)));
+});
+
+test('a stored mapping picks, renames and fixes columns', () => {
+  saveFinanceExportMapping('erp', {
+    files: {
+      contract_master: [
+        { header: 'ContractValue', field: 'contract_value_amount' },
+        { header: 'CustomerABN', field: 'customer_abn' },
+        { header: 'Currency', value: 'AUD' },
+      ],
+    },
+  }, 'finance@duracube.com.au');
+
+  const result = exportFiles({ mapping: 'erp', files: ['contract_master', 'parties'] });
+  assert.deepEqual(records(result, 'contract_master'), [{ ContractValue: '1500000', CustomerABN: '53004085616', Currency: 'AUD' }]);
+  // Files the mapping leaves out keep the built-in columns
+  assert.ok(result.files[1].columns.includes('ABN'));
+});
+
+test('unknown mappings and fields are rejected', () => {
+  assert.throws(() => exportFiles({ mapping: 'missing' }), /Unknown export mapping: missing/);
+  assert.throws(
+    () => saveFinanceExportMapping('bad', { files: { parties: [{ header: 'X', field: 'contract_value' }] } }, null),
+    /Unknown export fields: parties\.contract_value/
+  );
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { validateFinanceExtraction } from '../build/tools/finance-tools.js';
+
+const FIXTURE = JSON.parse(readFileSync(new URL('./fixtures/finance-extraction.json', import.meta.url), 'utf-8'));
+
+const validate = change => {
+  const extraction = structuredClone(FIXTURE);
+  change?.(extraction);
+  return JSON.parse(validateFinanceExtraction({ extraction }));
+};
+const violations = report => [...report.document_violations, ...report.categories.flatMap(c => c.violations)];
+
+test('a complete, sourced extraction is valid', () => {
+  const report = validate();
+  assert.equal(report.valid, true, JSON.stringify(violations(report)));
+  assert.equal(report.categories_found, 8);
+  assert.deepEqual(report.categories_not_found, ['additional_claim_documentation']);
+});
+
+test('a JSON string is accepted as well as an object', () => {
+  assert.equal(JSON.parse(validateFinanceExtraction({ extraction: JSON.stringify(FIXTURE) })).valid, true);
+});
+
+test('a missing category, an unsourced value and an unformatted amount are violations', () => {
+  const report = validate(extraction => {
+    delete extraction.project_manager;
+    extraction.contract_value.amount = '1500000';
+    extraction.payment_terms.source = 'Page 8';
+  });
+  assert.equal(report.valid, false);
+  assert.deepEqual(report.categories_missing, ['project_manager']);
+  const all = violations(report).join('\n');
+  assert.match(all, /contract_value\.amount '1500000' must be in \$X,XXX format/);
+  assert.match(all, /payment_terms\.source 'Page 8' must be "Page X, Clause X\.X"/);
+});
+
+test('NOT_FOUND needs the search terms used', () => {
+  const report = validate(extraction => {
+    extraction.additional_claim_documentation.searched = [];
+  });
+  assert.match(violations(report).join('\n'), /NOT_FOUND without a search summary/);
+});
+
+test('an ABN that fails the checksum is a violation naming the party', () => {
+  const report = validate(extraction => {
+    extraction.contract_parties[0].abn = '53 004 085 617';
+  });
+  assert.match(violations(report).join('\n'), /contract_parties\[0\]\.abn '53 004 085 617' for Builder Pty Ltd: ABN fails the checksum/);
+  assert.equal(report.business_numbers[0].abn.valid, false);
+});
@@ -0,0 +1,71 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { app } from '../build/server.js';
+import { SessionEventStore } from '../build/utils/event-store.js';
+
+let server;
+let url;
+before(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  url = `http://127.0.0.1:${server.address().port}/mcp`;
+});
+after(() => new Promise(resolve => server.close(resolve)));
+
+const HEADERS = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+const post = (body, headers = {}) => fetch(url, { method: 'POST', headers: { ...HEADERS, ...headers }, body: JSON.stringify(body) });
+
+const initialize = () => post({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+});
+
+test('an unknown session is 404 so the client re-initializes', async () => {
+  const res = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': 'expired' });
+  assert.equal(res.status, 404);
+  assert.equal((await res.json()).error.code, -32001);
+});
+
+test('a request without a session that is not initialize is 400', async () => {
+  const res = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+  assert.equal(res.status, 400);
+  assert.match((await res.json()).error.message, /Mcp-Session-Id header is required/);
+});
+
+test('initialize starts a session that DELETE ends', async () => {
+  const res = await initialize();
+  assert.equal(res.status, 200);
+  const sessionId = res.headers.get('mcp-session-id');
+  assert.ok(sessionId);
+  assert.match(await res.text(), /"serverInfo"/);
+
+  const closed = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+  assert.equal(closed.status, 200);
+  await closed.text();
+
+  const after = await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+  assert.equal(after.status, 404);
+  await after.text();
+});
+
+test('the event store replays only the later events of the same stream after Last-Event-ID', async () => {
+  const store = new SessionEventStore();
+  const message = n => ({ jsonrpc: '2.0', method: 'notifications/message', params: { n } });
+  const first = await store.storeEvent('get', message(1));
+  await store.storeEvent('post-1', message(2));
+  await store.storeEvent('get', message(3));
+  await store.storeEvent('get', message(4));
+
+  const replayed = [];
+  const streamId = await store.replayEventsAfter(first, {
+    send: async (eventId, msg) => { replayed.push([eventId, msg.params.n]); },
+  });
+  assert.equal(streamId, 'get');
+  assert.deepEqual(replayed, [['3', 3], ['4', 4]]);
+  assert.equal(await store.getStreamIdForEventId('2'), 'post-1');
+
+  await assert.rejects(store.replayEventsAfter('99', { send: async () => {} }), /Unknown or expired event ID: 99/);
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  FormatDataSchema,
+  LearningsDataSchema,
+  PrinciplesDataSchema,
+  FinanceExtractionDataSchema,
+  SectionMappingDataSchema,
+  ThresholdsDataSchema,
+  checkKnowledgeIntegrity,
+} from '../build/schemas/knowledge-schemas.js';
+
+const FILES = {
+  principles: ['principles.json', PrinciplesDataSchema],
+  learnings: ['learnings.json', LearningsDataSchema],
+  format: ['format.json', FormatDataSchema],
+  financeExtraction: ['finance-extraction.json', FinanceExtractionDataSchema],
+  sectionMapping: ['section-mapping.json', SectionMappingDataSchema],
+  thresholds: ['thresholds.json', ThresholdsDataSchema],
+};
+
+// A fresh, schema-checked copy of the shipped files for each test to break
+const knowledge = () => Object.fromEntries(Object.entries(FILES).map(([key, [file, schema]]) =>
+  [key, schema.parse(JSON.parse(readFileSync(new URL(`../build/knowledge/${file}`, import.meta.url), 'utf-8')))]
+));
+
+const problemsAfter = change => {
+  const files = knowledge();
+  change(files);
+  return checkKnowledgeIntegrity(files);
+};
+
+test('the shipped knowledge files agree', () => {
+  assert.deepEqual(checkKnowledgeIntegrity(knowledge()), []);
+});
+
+test('the schemas report the path of a malformed field', () => {
+  const principles = JSON.parse(readFileSync(new URL('../build/knowledge/principles.json', import.meta.url), 'utf-8'));
+  principles.principles[0].id = 'one';
+  const result = PrinciplesDataSchema.safeParse(principles);
+  assert.equal(result.success, false);
+  assert.deepEqual(result.error.issues[0].path, ['principles', 0, 'id']);
+});
+
+test('a principle in two section groups, or in none, is reported', () => {
+  const twice = problemsAfter(({ sectionMapping }) => {
+    const [a, b] = sectionMapping.section_groups;
+    a.principles_to_check.push(b.principles_to_check[0]);
+    a.principle_details.push(b.principle_details[0]);
+  });
+  assert.ok(twice.some(p => /principle 14 belongs to groups A, B \(expected exactly one\)/.test(p)), twice.join('\n'));
+
+  const none = problemsAfter(({ sectionMapping }) => {
+    const group = sectionMapping.section_groups[1];
+    group.principles_to_check.shift();
+    group.principle_details.shift();
+  });
+  assert.ok(none.some(p => /principle 14 belongs to no group/.test(p)), none.join('\n'));
+});
+
+test('unknown principles in section groups and the group map are reported', () => {
+  const problems = problemsAfter(({ sectionMapping }) => {
+    sectionMapping.section_groups[0].principles_to_check.push(99);
+    sectionMapping.quick_reference.principle_to_group_map['15'] = 'Z';
+  });
+  assert.ok(problems.some(p => /group A references unknown principle\(s\) 99/.test(p)));
+  assert.ok(problems.some(p => /principle_to_group_map\.15 points to unknown group Z/.test(p)));
+});
+
+test('format.json sections must list the categorization in order', () => {
+  const problems = problemsAfter(({ format }) => {
+    format.excel_structure.section_structure.section_1.principles.reverse();
+  });
+  assert.ok(problems.some(p => /^format\.json: excel_structure\.section_structure\.section_1\.principles .* does not match categorization/.test(p)));
+});
+
+test('learnings must name known principles and unique IDs', () => {
+  const problems = problemsAfter(({ learnings }) => {
+    learnings.learnings[0].principle_id = 42;
+    learnings.learnings[1].id = learnings.learnings[0].id;
+  });
+  assert.ok(problems.some(p => /learning PAGE-001 references unknown principle\(s\) 42/.test(p)), problems.join('\n'));
+  assert.ok(problems.some(p => /learning PAGE-001 is defined more than once/.test(p)));
+});
+
+test('thresholds must be versioned, add up and back every placeholder', () => {
+  const problems = problemsAfter(({ thresholds, learnings }) => {
+    thresholds.metadata.version = '9.9.9';
+    thresholds.thresholds.security_guarantee_percent.value = 3;
+    learnings.learnings[0].rule = 'Over {{retention_percent}} is non-compliant';
+  });
+  assert.ok(problems.some(p => /metadata\.version is 9\.9\.9 but the latest changelog entry is/.test(p)));
+  assert.ok(problems.some(p => /do not add up to security_max_percent/.test(p)));
+  assert.ok(problems.some(p => /learnings\.json: learnings\[0\]\.rule references unknown threshold \{\{retention_percent\}\}/.test(p)), problems.join('\n'));
+});
@@ -0,0 +1,72 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+let dir;
+let knowledge;
+before(async () => {
+  // The knowledge directory is fixed when the module loads, so point it at an editable copy first
+  dir = mkdtempSync(join(tmpdir(), 'knowledge-'));
+  cpSync(new URL('../build/knowledge', import.meta.url), dir, { recursive: true });
+  process.env.KNOWLEDGE_DIR = dir;
+  knowledge = await import('../build/tools/knowledge-tools.js');
+});
+after(() => {
+  delete process.env.KNOWLEDGE_DIR;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const editPrinciples = change => {
+  const path = join(dir, 'principles.json');
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+  change(data);
+  writeFileSync(path, JSON.stringify(data, null, 2));
+};
+const principleName = id => knowledge.getKnowledgeBase().principles.principles.find(p => p.id === id).name;
+
+test('a valid edit is picked up by a reload', () => {
+  assert.equal(principleName(24), 'Set Off');
+  editPrinciples(data => { data.principles.find(p => p.id === 24).name = 'Set-Off'; });
+  knowledge.reloadKnowledgeBase();
+  assert.equal(principleName(24), 'Set-Off');
+});
+
+test('an invalid edit is rejected and the previous knowledge stays live', () => {
+  const previous = knowledge.getKnowledgeBase();
+  editPrinciples(data => { data.principles.find(p => p.id === 24).id = 99; });
+  assert.throws(() => knowledge.reloadKnowledgeBase(), /Knowledge files are inconsistent/);
+  assert.equal(knowledge.getKnowledgeBase(), previous);
+  editPrinciples(data => { data.principles.find(p => p.id === 99).id = 24; });
+});
+
+test('the watcher reloads after an edit and the server tells clients the lists changed', async () => {
+  const { createMcpServer, notifyListsChanged } = await import('../build/mcp-server.js');
+  const server = createMcpServer();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const notified = new Promise(resolve => client.setNotificationHandler(ToolListChangedNotificationSchema, resolve));
+  let watcher;
+  const reloaded = new Promise(resolve => {
+    watcher = knowledge.watchKnowledgeFiles(() => {
+      notifyListsChanged(server);
+      resolve();
+    });
+  });
+
+  editPrinciples(data => { data.principles.find(p => p.id === 24).name = 'Set Off (watched)'; });
+  const timeout = setTimeout(() => assert.fail('no reload within 5 seconds'), 5000);
+  await reloaded;
+  await notified;
+  clearTimeout(timeout);
+  watcher.close();
+  await client.close();
+
+  assert.equal(principleName(24), 'Set Off (watched)');
+});
@@ -0,0 +1,52 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { recordLearnedCorrection } from '../build/tools/learning-tools.js';
+import { getLearnedCorrections } from '../build/tools/knowledge-tools.js';
+import { listStoredLearnings, reviewLearning } from '../build/utils/learnings-store.js';
+import { GetLearnedCorrectionsSchema, RecordLearnedCorrectionSchema } from '../build/schemas/tool-schemas.js';
+
+let dir;
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'learnings-'));
+  process.env.LEARNINGS_STORE_PATH = join(dir, 'learned-corrections.json');
+});
+after(() => {
+  delete process.env.LEARNINGS_STORE_PATH;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const record = input => JSON.parse(recordLearnedCorrection(RecordLearnedCorrectionSchema.parse({
+  category: 'security',
+  principle_id: 15,
+  issue: 'Marked a performance bond as a bank guarantee',
+  correction: 'Insurance bonds are not bank guarantees',
+  rule: 'An insurance bond is not a dated bank guarantee = NON-COMPLIANT',
+  ...input,
+})));
+const learnedIds = () => JSON.parse(getLearnedCorrections(GetLearnedCorrectionsSchema.parse({ category: 'security' }))).learnings.map(l => l.id);
+
+test('a recorded correction is proposed with the next ID in its category and no server path', () => {
+  const result = record({ submitted_by: 'reviewer@duracube.com.au' });
+  assert.equal(result.review_status, 'proposed');
+  assert.match(result.id, /^SEC-\d{3}$/);
+  assert.ok(!learnedIds().includes(result.id));
+  assert.equal(result.store, undefined);
+  assert.ok(!JSON.stringify(result).includes(dir));
+});
+
+test('the same rule cannot be recorded twice', () => {
+  assert.throws(() => record({}), /already documented/);
+});
+
+test('an approved correction is returned by get_learned_corrections; an ID is never reused', () => {
+  const [proposed] = listStoredLearnings('proposed');
+  reviewLearning(proposed.id, 'approved', 'approver');
+  assert.ok(learnedIds().includes(proposed.id));
+  assert.throws(() => reviewLearning(proposed.id, 'rejected'), /already approved/);
+
+  const next = record({ rule: 'A second rule' });
+  assert.notEqual(next.id, proposed.id);
+});
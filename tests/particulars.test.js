@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseContractParticulars } from '../build/tools/particulars-tools.js';
+
+const PARTICULARS = `--- Page 39 ---
+Schedule 1 Contract Particulars
+Item 1 Contract Sum: $1,250,000 plus GST
+Item 7 Security: 5% of the Contract Sum
+(a) Form: Two unconditional bank guarantees
+Item 15 Defects Liability Period: 52 weeks
+Item 16 Warranty Period  7 years
+Item 20 Project Manager: Jane Citizen`;
+
+const parse = () => JSON.parse(parseContractParticulars({ contract_text: PARTICULARS }));
+const item = (result, no) => result.particulars.find(p => p.item === no);
+
+test('items are split into label and value with the amount, percentage and period parsed', () => {
+  const result = parse();
+  assert.equal(result.items_found, 5);
+
+  const sum = item(result, '1');
+  assert.equal(sum.label, 'Contract Sum');
+  assert.equal(sum.value, '$1,250,000 plus GST');
+  assert.equal(sum.parsed.amount, 1_250_000);
+  assert.equal(sum.location, 'Page 39, Item 1');
+  assert.equal(sum.schedule, 'Schedule 1');
+
+  assert.equal(item(result, '7').parsed.percent, 5);
+  assert.match(item(result, '7').value, /unconditional bank guarantees/);
+  assert.deepEqual(item(result, '15').parsed.duration, { value: 52, unit: 'weeks' });
+});
+
+test('Contract Sum maps to finance category 1 (Contract Value) as well as the dollar mentions', () => {
+  const ids = item(parse(), '1').finance_categories.map(c => c.id);
+  assert.ok(ids.includes(1), JSON.stringify(ids));
+  assert.ok(ids.includes(9));
+});
+
+test('security, DLP and project manager items map to their principles and categories', () => {
+  const result = parse();
+  assert.ok(item(result, '7').principles.some(p => p.id === 15));
+  assert.ok(item(result, '7').finance_categories.some(c => c.id === 5));
+  assert.ok(item(result, '15').principles.some(p => p.id === 17));
+  assert.ok(item(result, '20').finance_categories.some(c => c.id === 8));
+  assert.deepEqual(result.by_principle['17'], ['Page 39, Item 15']);
+});
+
+test('a warranty item is not read as the DLP (DLP-001)', () => {
+  const warranty = item(parse(), '16');
+  assert.ok(!warranty.principles.some(p => p.id === 17));
+  assert.ok((warranty.notes ?? []).some(note => /DLP-001/.test(note)));
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPrinciple } from '../build/tools/principle-tools.js';
+import { GetPrincipleSchema } from '../build/schemas/tool-schemas.js';
+
+const dossier = principle => JSON.parse(getPrinciple(GetPrincipleSchema.parse({ principle })));
+
+test('a principle ID joins its learnings, decision tree, links and schedule row', () => {
+  const result = dossier(15);
+  assert.equal(result.principle.name, 'Security & Parent Company Guarantees');
+  assert.equal(result.matched, undefined);
+  assert.deepEqual(result.learnings.map(l => l.id), ['SEC-001', 'SEC-002', 'SEC-003']);
+  assert.equal(result.decision_tree.name, 'security_assessment');
+  assert.equal(result.section_group.group_id, 'B');
+  assert.deepEqual(result.interconnected_principles.map(l => [l.principle_a, l.principle_b]), [[15, 16]]);
+  assert.deepEqual(Object.keys(result.critical_non_negotiables), ['unconditional_guarantees', 'parent_company_guarantees']);
+  assert.deepEqual(result.schedule_position, { section: 'SECTION 1 - NON-NEGOTIABLE', position_in_section: 4, excel_row: 8 });
+});
+
+test('a fuzzy name finds the principle and its section group search hint', () => {
+  const result = dossier('set-off');
+  assert.equal(result.principle.id, 24);
+  assert.equal(result.matched.query, 'set-off');
+  assert.equal(result.section_group.search_for, 'Set off, withhold, deduct, offset');
+  assert.equal(result.decision_tree, null);
+
+  assert.equal(dossier('bank guarantees').principle.id, 15);
+  assert.equal(dossier('24').principle.id, 24);
+});
+
+test('unknown IDs and names are errors', () => {
+  assert.throws(() => dossier(29), /Unknown principle ID: 29\. Valid IDs are 1-28/);
+  assert.throws(() => dossier('zebra crossings'), /No principle matches "zebra crossings"/);
+});
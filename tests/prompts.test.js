@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPrompt, listPrompts } from '../build/prompts/knowledge-prompts.js';
+
+const text = (name, args) => getPrompt(name, args).messages[0].content.text;
+
+test('one section group prompt takes a required group_id', () => {
+  const prompts = listPrompts();
+  assert.deepEqual(prompts.map(p => p.name), [
+    'discover_principle_terms', 'extract_targeted_pages', 'analyse_section_group', 'combine_departure_schedule',
+  ]);
+  const group = prompts.find(p => p.name === 'analyse_section_group');
+  assert.deepEqual(group.arguments.filter(a => a.required).map(a => a.name), ['group_id']);
+  assert.match(group.arguments[0].description, /A, B, C, D, E, F, G/);
+});
+
+test('the chosen group\'s analysis prompt is filled with the pages and contract details', () => {
+  const prompt = text('analyse_section_group', { group_id: 'b', page_range: '12-30', contract_value: '$1,250,000' });
+  assert.match(prompt, /^Contract value \(excl\. GST\): \$1,250,000/);
+  assert.match(prompt, /Analyze pages 12-30 of this contract against DuraCube principles 14, 15, 16, and 24/);
+});
+
+test('unknown groups, bad page ranges and unknown prompts are rejected', () => {
+  assert.throws(() => getPrompt('analyse_section_group', { group_id: 'H' }), /group_id: Use one of the section groups A, B/);
+  assert.throws(() => getPrompt('analyse_section_group', {}), /group_id: Required/);
+  assert.throws(() => getPrompt('analyse_section_group', { group_id: 'A', page_range: 'the middle' }), /page_range/);
+  assert.throws(() => getPrompt('analyse_group_a'), /Unknown prompt: analyse_group_a/);
+});
+
+test('the combine prompt adds the row 1 header from the contract details', () => {
+  assert.match(
+    text('combine_departure_schedule', { customer_name: 'ABC Construction', project_name: 'New Office', contract_value: '500000' }),
+    /Row 1 header: ABC_Construction_New_Office_\$500000$/
+  );
+});
@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { reconcileContractFinancials } from '../build/tools/reconciliation-tools.js';
+import { ReconcileContractFinancialsSchema } from '../build/schemas/tool-schemas.js';
+
+const FIXTURE = JSON.parse(readFileSync(new URL('./fixtures/finance-extraction.json', import.meta.url), 'utf-8'));
+
+let dir;
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'export-mappings-'));
+  process.env.EXPORT_MAPPINGS_PATH = join(dir, 'export-mappings.json');
+});
+after(() => {
+  delete process.env.EXPORT_MAPPINGS_PATH;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const reconcile = (erpCsv, input = {}) =>
+  JSON.parse(reconcileContractFinancials(ReconcileContractFinancialsSchema.parse({ extraction: FIXTURE, erp_csv: erpCsv, ...input })));
+const field = (result, name) => result.fields.find(f => f.field === name);
+
+test('common ERP headers are recognised without a mapping', () => {
+  const result = reconcile('ContractValue,CustomerABN,PaymentTerms,Retention%\n"1,500,000",53 004 085 616,14 days EOM,5\n');
+  assert.deepEqual(result.unmatched_columns, []);
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.matched, 4);
+  assert.equal(field(result, 'contract_value').erp_column, 'ContractValue');
+  assert.equal(field(result, 'retention_percentage').erp_column, 'Retention%');
+  assert.equal(field(result, 'customer_abn').status, 'MATCH');
+  assert.equal(field(result, 'gst_treatment').status, 'MISSING_IN_ERP');
+  assert.match(result.note, /The 4 field\(s\) .* agree; 4 could not be compared/);
+});
+
+test('an ERP export with no recognised columns is not reported as in sync', () => {
+  const result = reconcile('Foo,Bar\n1,2\n');
+  assert.equal(result.matched, 0);
+  assert.deepEqual(result.unmatched_columns, ['Foo', 'Bar']);
+  assert.equal(result.warnings.length, 2);
+  assert.match(result.warnings[0], /None of the 2 ERP columns was recognised/);
+  assert.match(result.note, /^Nothing was reconciled/);
+});
+
+test('erp_columns maps headers no mapping covers', () => {
+  const result = reconcile('ValExGST\n1600000\n', { erp_columns: { ValExGST: 'contract_value_amount' } });
+  assert.equal(field(result, 'contract_value').status, 'MISMATCH');
+  assert.deepEqual(result.mismatches, ['contract_value']);
+
+  assert.throws(() => reconcile('ValExGST\n1\n', { erp_columns: { ValExGST: 'contract_total' } }), /contract_total/);
+});
+
+test('days from the end of the month do not match days from the claim', () => {
+  const result = reconcile('PaymentTerms\n14 days\n');
+  assert.equal(field(result, 'payment_terms').extracted, '14 days EOM');
+  assert.equal(field(result, 'payment_terms').status, 'MISMATCH');
+});
+
+test('a bare number of days matches with a note to confirm the basis', () => {
+  const payment = field(reconcile('PaymentTerms\n14\n'), 'payment_terms');
+  assert.equal(payment.status, 'MATCH');
+  assert.match(payment.note, /without a basis; the contract counts days EOM/);
+});
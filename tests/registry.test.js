@@ -0,0 +1,75 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { callTool, getTool, listTools, toolRegistry } from '../build/tools/registry.js';
+import { createMcpServer } from '../build/mcp-server.js';
+import { app } from '../build/server.js';
+
+let client;
+let server;
+let base;
+before(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test', version: '1.0.0' });
+  await Promise.all([createMcpServer().connect(serverTransport), client.connect(clientTransport)]);
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+after(async () => {
+  await client.close();
+  await new Promise(resolve => server.close(resolve));
+});
+
+test('every tool is registered once, including the section mapping tool', () => {
+  const names = toolRegistry.map(tool => tool.name);
+  assert.equal(new Set(names).size, names.length);
+  assert.ok(names.includes('get_section_principle_mapping'));
+});
+
+test('input schemas are derived from the zod schemas as plain objects', () => {
+  for (const { name, inputSchema } of listTools()) {
+    assert.equal(inputSchema.type, 'object', name);
+    assert.equal(inputSchema.$schema, undefined, name);
+    assert.doesNotMatch(JSON.stringify(inputSchema), /"\$ref"/, name);
+  }
+  const assess = getTool('assess_principle').inputSchema;
+  assert.deepEqual(assess.required, ['principle_id']);
+  assert.ok('security_form' in assess.properties.parameters.properties);
+});
+
+test('an MCP session lists exactly the registry and calls tools through it', async () => {
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map(t => t.name), toolRegistry.map(t => t.name));
+
+  const result = await client.callTool({ name: 'assess_principle', arguments: { principle_id: 9, parameters: { assessment_business_days: 10 } } });
+  assert.equal(JSON.parse(result.content[0].text).status, 'Compliant');
+
+  const invalid = await client.callTool({ name: 'assess_principle', arguments: { principle_id: 99 } });
+  assert.equal(invalid.isError, true);
+  assert.match(invalid.content[0].text, /^Error executing tool assess_principle/);
+});
+
+test('callTool wraps text output and rejects unknown tools', async () => {
+  const result = await callTool('get_output_format', {});
+  assert.equal(result.content[0].type, 'text');
+  await assert.rejects(callTool('get_everything', {}), /Unknown tool: get_everything/);
+});
+
+test('REST routes are registered from the same list', async () => {
+  const get = await fetch(`${base}/tools/get_output_format`);
+  assert.equal(get.status, 200);
+  await get.json();
+
+  const post = await fetch(`${base}/tools/assess_principle`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ principle_id: 9, parameters: { assessment_business_days: 20 } }),
+  });
+  assert.equal((await post.json()).status, 'Non-Compliant');
+
+  const listed = await (await fetch(`${base}/tools`)).json();
+  assert.deepEqual(listed.tools.map(t => t.name), toolRegistry.map(t => t.name));
+});
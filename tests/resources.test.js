@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { listResources, listResourceTemplates, readResource } from '../build/resources/knowledge-resources.js';
+import { createMcpServer } from '../build/mcp-server.js';
+
+const read = uri => JSON.parse(readResource(uri).contents[0].text);
+
+test('each piece of knowledge is addressable by URI', () => {
+  assert.equal(read('duracube://principles/15').name, 'Security & Parent Company Guarantees');
+  assert.equal(read('duracube://learnings/SEC-001').principle_id, 15);
+  assert.deepEqual(read('duracube://section-groups/B').principles_to_check, [14, 15, 16, 24]);
+  assert.equal(read('duracube://finance/categories/5').id, 5);
+  assert.ok(read('duracube://format/excel'));
+});
+
+test('the list names every principle and the templates cover each kind', () => {
+  const uris = listResources().map(r => r.uri);
+  for (let id = 1; id <= 28; id++) assert.ok(uris.includes(`duracube://principles/${id}`), `principle ${id}`);
+  assert.ok(uris.includes('duracube://thresholds'));
+  assert.ok(listResources().every(r => r.mimeType === 'application/json'));
+  assert.deepEqual(
+    listResourceTemplates().map(t => t.uriTemplate).filter(u => u.includes('principles')),
+    ['duracube://principles/{id}']
+  );
+});
+
+test('an unknown URI is error -32002', () => {
+  for (const uri of ['duracube://principles/99', 'duracube://principles/', 'https://example.com/principles/1']) {
+    assert.throws(() => readResource(uri), error => error.code === -32002 && error.message.includes(uri));
+  }
+});
+
+test('MCP clients see the resources capability and can read a resource', async () => {
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([createMcpServer().connect(serverTransport), client.connect(clientTransport)]);
+
+  assert.ok(client.getServerCapabilities().resources);
+  const { contents } = await client.readResource({ uri: 'duracube://principles/24' });
+  assert.equal(JSON.parse(contents[0].text).id, 24);
+  await client.close();
+});
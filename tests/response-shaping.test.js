@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { projectFields, renderResponse } from '../build/utils/response-format.js';
+import {
+  getDuracubePrinciples,
+  getFinanceExtractionGuide,
+  getLearnedCorrections,
+  getSectionPrincipleMapping,
+} from '../build/tools/knowledge-tools.js';
+import {
+  GetFinanceExtractionGuideSchema,
+  GetLearnedCorrectionsSchema,
+  GetPrinciplesSchema,
+  GetSectionPrincipleMappingSchema,
+} from '../build/schemas/tool-schemas.js';
+
+const principles = input => JSON.parse(getDuracubePrinciples(GetPrinciplesSchema.parse(input)));
+
+test('fields are projected by dotted path and the identifying key is always kept', () => {
+  const items = [{ id: 1, name: 'A', logic: { risk: 'HIGH', note: 'x' } }];
+  assert.deepEqual(projectFields(items, ['logic.risk'], ['id']), [{ id: 1, logic: { risk: 'HIGH' } }]);
+  assert.equal(projectFields(items, undefined, ['id']), items);
+  assert.throws(() => projectFields(items, ['nope'], ['id']), /Unknown field\(s\): nope\. Available fields: id, name, logic/);
+});
+
+test('compact is JSON without whitespace and markdown has headings per item', () => {
+  assert.equal(renderResponse({ a: [1, 2] }, 'compact'), '{"a":[1,2]}');
+  const markdown = renderResponse({ total: 1, items: [{ id: 24, name: 'Set Off', risk: 'HIGH' }] }, 'markdown', 'Title');
+  assert.equal(markdown, '# Title\n\n**Total:** 1  \n\n## Items\n\n### 24. Set Off\n\n- **Risk**: HIGH\n');
+});
+
+test('principles filter by ID and category, project fields and drop the workflow guidance', () => {
+  const result = principles({ principle_ids: [15, 16, 24], category: 'NON-NEGOTIABLE', fields: ['compliance_logic.no_term_risk'], include_workflow_guidance: false });
+  assert.equal(result._workflow_guidance, undefined);
+  assert.deepEqual(result.principles.map(p => Object.keys(p)), [['id', 'compliance_logic'], ['id', 'compliance_logic'], ['id', 'compliance_logic']]);
+  // Only the relationships and thresholds that involve a selected principle remain
+  assert.deepEqual(result.interconnected_principles.map(l => [l.principle_a, l.principle_b]), [[15, 16]]);
+  assert.ok('security_max_percent' in result.thresholds.values);
+  assert.ok(!('public_liability_limit' in result.thresholds.values));
+
+  assert.equal(principles({ category: 'NEGOTIABLE' }).total_principles, 19);
+  assert.ok(principles({})._workflow_guidance);
+});
+
+test('learnings filter by principle, including interconnected principles', () => {
+  const result = JSON.parse(getLearnedCorrections(GetLearnedCorrectionsSchema.parse({ principle_ids: [17], fields: ['rule'], include_decision_trees: false })));
+  assert.deepEqual(result.learnings.map(l => l.id), ['DLP-001', 'DLP-002']);
+  assert.deepEqual(Object.keys(result.learnings[0]), ['id', 'rule']);
+  assert.equal(result.decision_trees, undefined);
+});
+
+test('section groups narrow to the requested principles', () => {
+  const result = JSON.parse(getSectionPrincipleMapping(GetSectionPrincipleMappingSchema.parse({ principle_ids: [15, 25], fields: ['group_id', 'principles_to_check'] })));
+  assert.deepEqual(result.section_groups, [
+    { group_id: 'B', principles_to_check: [15] },
+    { group_id: 'D', principles_to_check: [25] },
+  ]);
+});
+
+test('finance categories are projected and every tool renders markdown', () => {
+  const guide = JSON.parse(getFinanceExtractionGuide(GetFinanceExtractionGuideSchema.parse({ fields: ['name'] })));
+  assert.equal(guide.extraction_categories.length, 9);
+  assert.deepEqual(Object.keys(guide.extraction_categories[0]), ['id', 'name']);
+
+  assert.match(getDuracubePrinciples(GetPrinciplesSchema.parse({ principle_ids: [24], format: 'markdown' })), /^# DuraCube Commercial Principles\n[\s\S]*### 24\. Set Off/);
+  assert.match(getLearnedCorrections(GetLearnedCorrectionsSchema.parse({ format: 'markdown' })), /^# /);
+});
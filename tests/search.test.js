@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Bm25Index, tokenize } from '../build/utils/bm25.js';
+import { searchKnowledge } from '../build/tools/search-tools.js';
+import { SearchKnowledgeSchema } from '../build/schemas/tool-schemas.js';
+
+test('tokenize drops stop words and folds simple plurals', () => {
+  assert.deepEqual(tokenize('The Bank Guarantees of the Subcontractor'), ['bank', 'guarantee', 'subcontractor']);
+  assert.deepEqual(tokenize('business days'), ['business', 'day']);
+  assert.deepEqual(tokenize('progress'), ['progress']);
+});
+
+test('BM25 ranks the document that uses the rarer term more often first', () => {
+  const index = new Bm25Index();
+  index.add('security security bank guarantee');
+  index.add('bank account details');
+  index.add('payment terms');
+
+  const matches = index.search('security guarantee');
+  assert.deepEqual(matches.map(m => m.index), [0]);
+  assert.deepEqual(index.search('bank').map(m => m.index).sort(), [0, 1]);
+  assert.deepEqual(index.search('the of'), []);
+});
+
+test('search_knowledge finds the unconditional guarantee learning and filters by source', () => {
+  const search = input => JSON.parse(searchKnowledge(SearchKnowledgeSchema.parse(input)));
+
+  const all = search({ query: 'unconditional bank guarantee', limit: 50 });
+  assert.ok(all.total_matches > 0);
+  assert.ok(all.results.some(r => r.source === 'learnings.json' && /SEC-003/.test(r.path + r.context)), JSON.stringify(all.results.map(r => r.path)));
+
+  const learnings = search({ query: 'unconditional bank guarantee', sources: ['learnings'] });
+  assert.ok(learnings.results.every(r => r.source === 'learnings.json'));
+
+  assert.throws(() => search({ query: 'the of' }), /no searchable words/);
+});
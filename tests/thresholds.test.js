@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { findPlaceholders, formatThreshold, resolvePlaceholders, thresholdValues } from '../build/utils/thresholds.js';
+import { getDuracubeStandards, getKnowledgeBase } from '../build/tools/knowledge-tools.js';
+
+const readKnowledge = file => JSON.parse(readFileSync(new URL(`../build/knowledge/${file}`, import.meta.url), 'utf-8'));
+
+test('thresholds read as prose in their unit', () => {
+  assert.equal(formatThreshold({ value: 5, unit: 'percent' }), '5%');
+  assert.equal(formatThreshold({ value: 10, unit: 'business_days' }), '10 business days');
+  assert.equal(formatThreshold({ value: 1, unit: 'days' }), '1 day');
+  assert.equal(formatThreshold({ value: 52, unit: 'weeks' }), '52 weeks');
+  assert.equal(formatThreshold({ value: 20_000_000, unit: 'aud' }), '$20M');
+  assert.equal(formatThreshold({ value: 400_000, unit: 'aud' }), '$400k');
+  assert.equal(formatThreshold({ value: 1_250, unit: 'aud' }), '$1,250');
+});
+
+test('placeholders resolve from the data passed in and unknown keys are left as written', () => {
+  const data = { thresholds: { security_max_percent: { value: 7.5, unit: 'percent' } } };
+  assert.deepEqual(
+    resolvePlaceholders({ rule: ['Security over {{ security_max_percent }}', '{{nope}}'] }, data),
+    { rule: ['Security over 7.5%', '{{nope}}'] }
+  );
+  assert.deepEqual(findPlaceholders({ a: ['x {{one}}', { b: '{{two}}' }] }), [{ path: 'a[0]', key: 'one' }, { path: 'a[1].b', key: 'two' }]);
+});
+
+test('the loaded knowledge base has every placeholder resolved', () => {
+  const kb = getKnowledgeBase();
+  for (const file of ['principles', 'learnings', 'format', 'financeExtraction', 'sectionMapping']) {
+    assert.deepEqual(findPlaceholders(kb[file]), [], file);
+  }
+  assert.deepEqual(getDuracubeStandards(), thresholdValues(kb.thresholds));
+});
+
+test('changing a threshold changes the learnings, format examples and section prompts that state it', () => {
+  const thresholds = readKnowledge('thresholds.json');
+  thresholds.thresholds.public_liability_limit.value = 30_000_000;
+  thresholds.thresholds.dlp_max_weeks.value = 104;
+
+  const sectionMapping = JSON.stringify(resolvePlaceholders(readKnowledge('section-mapping.json'), thresholds));
+  const learnings = JSON.stringify(resolvePlaceholders(readKnowledge('learnings.json'), thresholds));
+  const format = JSON.stringify(resolvePlaceholders(readKnowledge('format.json'), thresholds));
+
+  assert.match(sectionMapping, /Public Liability: \$30M/);
+  assert.doesNotMatch(sectionMapping, /\$20M|52 weeks/);
+  assert.match(learnings, /DuraCube limit \(\$30M\)/);
+  assert.match(learnings, /BG2 expires 104 weeks after PC/);
+  assert.match(format, /BG2 expiring 104 weeks after PC/);
+});
+
+test('example contract quotes stay as written when a threshold changes', () => {
+  const thresholds = readKnowledge('thresholds.json');
+  thresholds.thresholds.dlp_max_weeks.value = 104;
+  const format = resolvePlaceholders(readKnowledge('format.json'), thresholds);
+
+  // The Clause column quotes the contract; only the Departure column states DuraCube's position
+  const dlpRow = format.example_rows.find(row => row.startsWith('| 17 |'));
+  assert.equal(dlpRow.split('|')[5].trim(), '"52 weeks"');
+  assert.doesNotMatch(format.complete_excel_example, /"[^"|]*104 weeks[^"|]*"/);
+  assert.match(format.complete_excel_example, /expires 104 weeks after PC/);
+});